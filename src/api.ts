@@ -0,0 +1,251 @@
+/**
+ * Programmatic API for the generators behind the MCP tools, for scripts and CI that do not speak MCP.
+ * Each function runs its generator the way the tool does: the config gets its preset and defaults (or is read
+ * from the project manifest when omitted), the arguments are checked against the tool's input schema, paths are
+ * checked against allowedRoots, and file changes are rolled back when the run fails or journaled for
+ * rollback_last_operation when it succeeds.
+ * Invalid arguments and disallowed paths throw; a missing path or a failed run resolves with status "failed".
+ */
+
+import path from 'node:path';
+
+import { z } from 'zod';
+
+import { parseProjectConfig, type ProjectConfig, type ProjectConfigSchema } from './config.js';
+import { ToolRunContext, type ProgressReporter } from './context.js';
+import { readManifestConfig } from './manifest.js';
+import { assertPathAllowed, resolveRealPath } from './paths.js';
+import { createPluginSchemas, type NextMCPPlugin } from './plugins.js';
+import { runProjectTool } from './run.js';
+import { TemplateRenderer } from './template-renderer.js';
+import { toToolOutput, type ToolOutput, type ToolResult } from './tool-result.js';
+import { createToolInputSchemas, PROJECT_CREATING_TOOLS, type ToolInput, type ToolName } from './tool-schemas.js';
+import * as auth from './tools/auth.js';
+import type { AuthProvider } from './tools/auth.js';
+import * as components from './tools/components.js';
+import * as crud from './tools/crud.js';
+import * as database from './tools/database.js';
+import * as docker from './tools/docker.js';
+import * as model from './tools/model.js';
+import * as pipeline from './tools/pipeline.js';
+import type { PipelineStepName } from './tools/pipeline.js';
+import * as readme from './tools/readme.js';
+import * as scaffold from './tools/scaffold.js';
+import * as seed from './tools/seed.js';
+import * as shadcn from './tools/shadcn.js';
+import * as validate from './tools/validate.js';
+
+export type RunOptions = {
+  // Plan only, like the tools' dryRun argument: nothing in the project is changed or run
+  dryRun?: boolean;
+  // Directories the run may write into; anything may be written when unset
+  allowedRoots?: string[];
+  // Directory whose templates shadow the built-in ones, ~/.next-mcp/templates by default
+  templatesDir?: string;
+  plugins?: NextMCPPlugin[];
+  onProgress?: ProgressReporter;
+  // Stops running shell commands when aborted
+  signal?: AbortSignal;
+};
+
+// What a run did, in the shape of the MCP tools' structured output, with the tool's message
+export type RunResult = ToolOutput & { projectPath: string; message: string };
+
+// A project config before defaults are applied, as passed to the MCP tools
+export type ProjectConfigInput = z.input<typeof ProjectConfigSchema>;
+
+// A model for generateModel and generateCrud before defaults are applied
+export type ModelDefinitionInput = z.input<typeof model.ModelDefinitionSchema>;
+
+/**
+ * Checks the arguments against the tool's input schema and the allowed roots the way the server does, then runs it
+ * @param input The tool's arguments, as an MCP client would pass them
+ */
+async function runTool<T extends ToolName>(
+  name: T,
+  input: { config?: ProjectConfigInput; projectPath?: string; targetPath?: string; [key: string]: unknown },
+  options: RunOptions,
+  handler: (ctx: ToolRunContext, config: ProjectConfig, input: ToolInput<T>) => Promise<ToolResult>
+): Promise<RunResult> {
+  const plugins = options.plugins ?? [];
+  const allowedRoots = options.allowedRoots && (await Promise.all(options.allowedRoots.map(resolveRealPath)));
+  const ctx = new ToolRunContext({
+    ...options,
+    allowedRoots,
+    templates: new TemplateRenderer(
+      options.templatesDir,
+      plugins.flatMap((plugin) => plugin.templatesDir ?? [])
+    ),
+    plugins,
+  });
+
+  const givenPath = input.projectPath ?? input.targetPath;
+  if (typeof givenPath !== 'string' || givenPath === '') {
+    const result: ToolResult = {
+      status: 'failed',
+      content: [{ type: 'text', text: `❌ ${name} needs a ${'targetPath' in input ? 'targetPath' : 'projectPath'}` }],
+    };
+    return { ...toToolOutput(name, ctx, result), projectPath: '', message: result.content[0].text };
+  }
+
+  // The preset goes underneath the config before the arguments are checked, as in the server
+  const { fieldsSchema, configSchema } = createPluginSchemas(plugins);
+  const resolvedConfig =
+    input.config &&
+    (await parseProjectConfig(input.config, configSchema, {
+      preset: PROJECT_CREATING_TOOLS.includes(name) ? 'default' : 'named',
+    }));
+  const args = createToolInputSchemas(fieldsSchema, configSchema)[name].parse({
+    ...input,
+    config: resolvedConfig,
+  }) as ToolInput<T>;
+  await assertPathAllowed(givenPath, allowedRoots);
+
+  const config =
+    resolvedConfig ?? (await parseProjectConfig(await readManifestConfig(input.projectPath), configSchema));
+  const projectPath = input.projectPath ?? path.join(givenPath, config.name!);
+
+  const { result, rolledBack } = await runProjectTool(ctx, name, config, projectPath, () => handler(ctx, config, args));
+
+  return {
+    ...toToolOutput(name, ctx, result, rolledBack),
+    projectPath,
+    message: result.content.map((c) => c.text).join('\n'),
+  };
+}
+
+/**
+ * Creates a Next.js project in targetPath/<config.name> with create-next-app and the project's base setup
+ */
+export async function scaffoldProject(config: ProjectConfigInput, targetPath: string, options: RunOptions = {}) {
+  return runTool('scaffold_project', { config, targetPath }, options, (ctx, resolved) =>
+    scaffold.scaffoldProject(ctx, resolved, targetPath)
+  );
+}
+
+/**
+ * Creates a project and runs every setup step, like the create_full_project tool
+ */
+export async function createFullProject(
+  config: ProjectConfigInput,
+  targetPath: string,
+  options: RunOptions & { resumeFrom?: PipelineStepName } = {}
+) {
+  return runTool(
+    'create_full_project',
+    { config, targetPath, resumeFrom: options.resumeFrom },
+    options,
+    (ctx, resolved, input) => pipeline.createFullProject(ctx, resolved, targetPath, input.resumeFrom)
+  );
+}
+
+export async function setupShadcn(
+  config: ProjectConfigInput | undefined,
+  projectPath: string,
+  options: RunOptions & { components?: string[] } = {}
+) {
+  return runTool(
+    'setup_shadcn',
+    { config, projectPath, components: options.components },
+    options,
+    (ctx, resolved, input) => shadcn.setupShadcn(ctx, resolved, projectPath, input.components)
+  );
+}
+
+export async function generateBaseComponents(
+  config: ProjectConfigInput | undefined,
+  projectPath: string,
+  options: RunOptions = {}
+) {
+  return runTool('generate_base_components', { config, projectPath }, options, (ctx, resolved) =>
+    components.generateBaseComponents(ctx, resolved, projectPath)
+  );
+}
+
+export async function setupDatabase(
+  config: ProjectConfigInput | undefined,
+  projectPath: string,
+  options: RunOptions = {}
+) {
+  return runTool('setup_database', { config, projectPath }, options, (ctx, resolved) =>
+    database.setupDatabase(ctx, resolved, projectPath)
+  );
+}
+
+export async function setupAuthentication(
+  config: ProjectConfigInput | undefined,
+  projectPath: string,
+  options: RunOptions & { providers?: AuthProvider[] } = {}
+) {
+  return runTool(
+    'setup_authentication',
+    { config, projectPath, providers: options.providers },
+    options,
+    (ctx, resolved, input) => auth.setupAuthentication(ctx, resolved, projectPath, input.providers)
+  );
+}
+
+export async function generateDockerfile(
+  config: ProjectConfigInput | undefined,
+  projectPath: string,
+  options: RunOptions & { baseImage?: string } = {}
+) {
+  return runTool(
+    'generate_dockerfile',
+    { config, projectPath, baseImage: options.baseImage },
+    options,
+    (ctx, resolved, input) => docker.generateDockerfile(ctx, resolved, projectPath, input.baseImage)
+  );
+}
+
+export async function setupSeed(
+  config: ProjectConfigInput | undefined,
+  projectPath: string,
+  options: RunOptions & { demoUser?: boolean } = {}
+) {
+  return runTool('setup_seed', { config, projectPath, demoUser: options.demoUser }, options, (ctx, resolved, input) =>
+    seed.setupSeed(ctx, resolved, projectPath, input.demoUser)
+  );
+}
+
+export async function generateModel(
+  config: ProjectConfigInput | undefined,
+  projectPath: string,
+  definition: ModelDefinitionInput,
+  options: RunOptions = {}
+) {
+  return runTool('generate_model', { config, projectPath, model: definition }, options, (ctx, resolved, input) =>
+    model.generateModel(ctx, resolved, projectPath, input.model)
+  );
+}
+
+export async function generateCrud(
+  config: ProjectConfigInput | undefined,
+  projectPath: string,
+  definition: ModelDefinitionInput,
+  options: RunOptions = {}
+) {
+  return runTool('generate_crud', { config, projectPath, model: definition }, options, (ctx, resolved, input) =>
+    crud.generateCrud(ctx, resolved, projectPath, input.model)
+  );
+}
+
+export async function validateProject(
+  config: ProjectConfigInput | undefined,
+  projectPath: string,
+  options: RunOptions = {}
+) {
+  return runTool('validate_project', { config, projectPath }, options, (ctx, resolved) =>
+    validate.validateProject(ctx, resolved, projectPath)
+  );
+}
+
+export async function generateReadme(
+  config: ProjectConfigInput | undefined,
+  projectPath: string,
+  options: RunOptions = {}
+) {
+  return runTool('generate_readme', { config, projectPath }, options, (ctx, resolved) =>
+    readme.generateReadme(ctx, resolved, projectPath)
+  );
+}
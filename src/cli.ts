@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+
+import { runCommand, type CommandOptions } from './commands.js';
+import { SERVER_CONFIG_PATH } from './constants.js';
+import { runHttpServer } from './http.js';
+import { runInit } from './init.js';
+import { logger } from './logger.js';
+import { loadPlugins, readServerConfigPlugins, type NextMCPPlugin } from './plugins.js';
+import { NextMCPServer } from './server.js';
+
+process.on('SIGINT', async () => {
+  process.exit(0);
+});
+
+process.on('SIGTERM', async () => {
+  process.exit(0);
+});
+
+process.on('unhandledRejection', (reason, promise) => {
+  logger.error('Unhandled Rejection at:', promise, 'reason:', reason);
+  process.exit(1);
+});
+
+process.on('uncaughtException', (error) => {
+  logger.error('Uncaught Exception:', error);
+  process.exit(1);
+});
+
+const SERVER_OPTIONS = {
+  transport: { type: 'string', default: 'stdio' },
+  port: { type: 'string', default: '3000' },
+  host: { type: 'string', default: '127.0.0.1' },
+  'allowed-root': { type: 'string', multiple: true },
+  'templates-dir': { type: 'string' },
+  plugin: { type: 'string', multiple: true },
+} satisfies CommandOptions;
+
+// A first argument that is not an option names a command to run instead of starting the server
+const command =
+  process.argv[2] === '--help' ? 'help' : process.argv[2]?.startsWith('-') === false ? process.argv[2] : undefined;
+const commandArgs = process.argv.slice(3);
+
+// Commands check their own options, so unknown ones are only an error when starting the server
+const { values: cliOptions } = parseArgs({
+  args: command ? commandArgs : process.argv.slice(2),
+  options: SERVER_OPTIONS,
+  strict: !command,
+}) as ReturnType<typeof parseArgs<{ options: typeof SERVER_OPTIONS }>>;
+
+const configuredRoots = [
+  ...(cliOptions['allowed-root'] ?? []),
+  ...(process.env.NEXT_MCP_ALLOWED_ROOTS?.split(path.delimiter).filter(Boolean) ?? []),
+];
+const allowedRoots = configuredRoots.length > 0 ? configuredRoots.map((root) => path.resolve(root)) : undefined;
+
+const configuredTemplatesDir = cliOptions['templates-dir'] ?? process.env.NEXT_MCP_TEMPLATES_DIR;
+const templatesDir = configuredTemplatesDir ? path.resolve(configuredTemplatesDir) : undefined;
+
+if (!command && cliOptions.transport !== 'stdio' && cliOptions.transport !== 'http') {
+  console.error(`Unknown transport "${cliOptions.transport}". Use "stdio" or "http".`);
+  process.exit(1);
+}
+
+// Plugins from the server config file load first, then those passed with --plugin
+let plugins: NextMCPPlugin[];
+try {
+  const serverConfigPath = path.resolve(process.env.NEXT_MCP_CONFIG ?? SERVER_CONFIG_PATH);
+  plugins = await loadPlugins([
+    ...(await readServerConfigPlugins(serverConfigPath)),
+    ...(cliOptions.plugin ?? []).map((specifier) => ({ specifier, baseDir: process.cwd() })),
+  ]);
+} catch (error) {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  logger.error(`Failed to load plugins: ${errorMessage}`);
+  console.error(errorMessage);
+  process.exit(1);
+}
+
+if (command) {
+  const server = new NextMCPServer({ allowedRoots, templatesDir, plugins });
+  process.exitCode =
+    command === 'init'
+      ? await runInit(server, commandArgs, SERVER_OPTIONS)
+      : await runCommand(server, command, commandArgs, SERVER_OPTIONS);
+} else if (cliOptions.transport === 'http') {
+  runHttpServer({
+    host: cliOptions.host,
+    port: Number(cliOptions.port),
+    authToken: process.env.NEXT_MCP_AUTH_TOKEN,
+    allowedRoots,
+    templatesDir,
+    plugins,
+  }).catch((error) => {
+    logger.error('Failed to start HTTP server:', error);
+    process.exit(1);
+  });
+} else {
+  const server = new NextMCPServer({ allowedRoots, templatesDir, plugins });
+  server.run().catch(logger.error);
+}
@@ -0,0 +1,208 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { parseArgs, type ParseArgsConfig } from 'node:util';
+
+import type { NextMCPServer, ToolDefinition } from './server.js';
+import type { ToolResult } from './tool-result.js';
+
+type ArgumentSchema = {
+  type?: string;
+  description?: string;
+  default?: unknown;
+  enum?: string[];
+  items?: { enum?: string[] };
+};
+
+export type CommandOptions = NonNullable<ParseArgsConfig['options']>;
+
+// Shorter command names for tools whose kebab-case name is long; every tool also runs under its full name
+const COMMAND_ALIASES: Record<string, string> = {
+  scaffold: 'scaffold_project',
+  create: 'create_full_project',
+  detect: 'detect_project_config',
+  rollback: 'rollback_last_operation',
+  'setup-auth': 'setup_authentication',
+  'generate-components': 'generate_base_components',
+  validate: 'validate_project',
+};
+
+// Path arguments default to the working directory, like a tool called from a client open in it
+const PATH_ARGUMENTS = new Set(['projectPath', 'targetPath']);
+
+const toOptionName = (key: string) => key.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+
+const getCommandName = (toolName: string) =>
+  Object.keys(COMMAND_ALIASES).find((alias) => COMMAND_ALIASES[alias] === toolName) ?? toolName.replaceAll('_', '-');
+
+const getArgumentSchemas = (tool: ToolDefinition) =>
+  (tool.inputSchema.properties ?? {}) as Record<string, ArgumentSchema>;
+
+export function formatUsage(server: NextMCPServer): string {
+  const tools = server.listTools();
+  const width = Math.max(...tools.map((tool) => getCommandName(tool.name).length), 'init'.length) + 2;
+  const commands = [
+    `  ${'init'.padEnd(width)}Create a project by answering questions`,
+    ...tools.map((tool) => `  ${getCommandName(tool.name).padEnd(width)}${tool.description.split('. ')[0]}`),
+  ];
+
+  return [
+    'Usage: next-mcp [options]            Start the MCP server',
+    '       next-mcp <command> [options]  Run a tool directly',
+    '',
+    'Commands:',
+    ...commands,
+    '',
+    'Run "next-mcp <command> --help" for the options of a command.',
+  ].join('\n');
+}
+
+function formatCommandUsage(tool: ToolDefinition): string {
+  const options = Object.entries(getArgumentSchemas(tool)).map(([key, schema]) => {
+    const choices = schema.enum ?? schema.items?.enum;
+    const value =
+      key === 'config' || schema.type === 'object'
+        ? ' <file|json>'
+        : schema.type === 'boolean'
+          ? ''
+          : schema.type === 'array'
+            ? ' <a,b,...>'
+            : ' <value>';
+    const notes = [
+      choices && `one of ${choices.join(', ')}`,
+      PATH_ARGUMENTS.has(key) && 'defaults to the working directory',
+    ].filter(Boolean);
+    return `  --${toOptionName(key)}${value}\n      ${schema.description ?? ''}${notes.length > 0 ? ` (${notes.join('; ')})` : ''}`;
+  });
+
+  return [
+    `Usage: next-mcp ${getCommandName(tool.name)} [options]`,
+    '',
+    tool.description,
+    '',
+    'Options:',
+    ...options,
+    '  --json\n      Print the structured result as JSON',
+  ].join('\n');
+}
+
+/**
+ * Reads an object argument such as --config as inline JSON or as the path of a JSON file
+ */
+async function readJsonArgument(key: string, value: string): Promise<unknown> {
+  if (value.trimStart().startsWith('{')) {
+    return JSON.parse(value);
+  }
+
+  const filePath = path.resolve(value);
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch {
+    throw new Error(`Cannot read ${key} file ${filePath}`);
+  }
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${key} file ${filePath} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Turns command-line options into tool arguments, using the tool's input schema for names and types.
+ * Arrays take comma-separated or repeated values, and objects take JSON or a JSON file.
+ */
+async function parseToolArguments(
+  tool: ToolDefinition,
+  argv: string[],
+  globalOptions: CommandOptions
+): Promise<{ args: Record<string, unknown>; json: boolean; help: boolean }> {
+  const schemas = getArgumentSchemas(tool);
+  const options: CommandOptions = { ...globalOptions, json: { type: 'boolean' }, help: { type: 'boolean' } };
+  for (const [key, schema] of Object.entries(schemas)) {
+    options[toOptionName(key)] = {
+      type: schema.type === 'boolean' ? 'boolean' : 'string',
+      multiple: schema.type === 'array',
+    };
+  }
+
+  const { values } = parseArgs({ args: argv, options });
+  const args: Record<string, unknown> = {};
+  for (const [key, schema] of Object.entries(schemas)) {
+    const value = values[toOptionName(key)];
+    if (value === undefined) {
+      if (PATH_ARGUMENTS.has(key)) args[key] = process.cwd();
+      continue;
+    }
+
+    if (key === 'config' || schema.type === 'object') {
+      args[key] = await readJsonArgument(key, value as string);
+    } else if (PATH_ARGUMENTS.has(key)) {
+      args[key] = path.resolve(value as string);
+    } else if (schema.type === 'array') {
+      args[key] = (value as string[]).flatMap((item) => item.split(',')).filter(Boolean);
+    } else if (schema.type === 'number' || schema.type === 'integer') {
+      args[key] = Number(value);
+    } else {
+      args[key] = value;
+    }
+  }
+
+  return { args, json: values.json === true, help: values.help === true };
+}
+
+/**
+ * Prints a tool result for a terminal: its message, or the structured output as JSON for scripts
+ * @returns The process exit code
+ */
+export function printToolResult(result: ToolResult, json: boolean): number {
+  if (json) {
+    console.log(JSON.stringify(result.structuredContent, null, 2));
+  } else {
+    const text = result.content.map((c) => c.text).join('\n');
+    (result.isError ? console.error : console.log)(text);
+  }
+  return result.isError ? 1 : 0;
+}
+
+export const reportProgress = async (_progress: number, message: string) => {
+  console.error(`… ${message}`);
+};
+
+/**
+ * Runs the tool behind a command with the same validation, dry-run and rollback handling as an MCP call
+ * @param globalOptions Options of the next-mcp command itself, accepted alongside the tool's
+ * @returns The process exit code
+ */
+export async function runCommand(
+  server: NextMCPServer,
+  command: string,
+  argv: string[],
+  globalOptions: CommandOptions
+): Promise<number> {
+  if (command === 'help') {
+    console.log(formatUsage(server));
+    return 0;
+  }
+
+  const toolName = COMMAND_ALIASES[command] ?? command.replaceAll('-', '_');
+  const tool = server.listTools().find((candidate) => candidate.name === toolName);
+  if (!tool) {
+    console.error(`Unknown command "${command}"\n\n${formatUsage(server)}`);
+    return 1;
+  }
+
+  let parsed: Awaited<ReturnType<typeof parseToolArguments>>;
+  try {
+    parsed = await parseToolArguments(tool, argv, globalOptions);
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${formatCommandUsage(tool)}`);
+    return 1;
+  }
+  if (parsed.help) {
+    console.log(formatCommandUsage(tool));
+    return 0;
+  }
+
+  const result = await server.runTool(tool.name, parsed.args, { onProgress: reportProgress });
+  return printToolResult(result, parsed.json);
+}
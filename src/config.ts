@@ -0,0 +1,193 @@
+import { adjectives, colors, Config, names, uniqueNamesGenerator } from 'unique-names-generator';
+import { z } from 'zod';
+
+import { applyPreset } from './presets.js';
+
+const uniqueNamesGeneratorConfig: Config = {
+  dictionaries: [adjectives, colors, names],
+  length: 2,
+  separator: '-',
+  style: 'lowerCase',
+};
+
+// Built-in values of the architecture choices that plugins can extend
+export const ARCHITECTURE_CHOICES = {
+  database: ['none', 'postgres', 'mysql', 'mongodb', 'sqlite'],
+  orm: ['none', 'prisma', 'drizzle', 'kysely', 'mongoose'],
+  auth: ['none', 'better-auth'],
+  uiLibrary: ['none', 'shadcn'],
+  stateManagement: ['none', 'zustand', 'redux'],
+  testing: ['none', 'jest', 'vitest', 'playwright'],
+} as const;
+
+export type ArchitectureChoice = keyof typeof ARCHITECTURE_CHOICES;
+
+// Values plugins add to the architecture choices, e.g. { orm: ['sequelize'] }
+export type ArchitectureExtensions = Partial<Record<ArchitectureChoice, string[]>>;
+
+/**
+ * Builds the Zod schema for the ProjectConfig fields with defaults, before cross-field rules are applied.
+ * Values registered by plugins are accepted alongside the built-in ones.
+ */
+export function createProjectConfigFieldsSchema(extensions: ArchitectureExtensions = {}) {
+  const choice = <T extends ArchitectureChoice>(field: T) =>
+    z.enum([
+      ...new Set([...ARCHITECTURE_CHOICES[field], ...(extensions[field] ?? [])]),
+    ] as unknown as (typeof ARCHITECTURE_CHOICES)[T]);
+
+  return z.object({
+    name: z
+      .string()
+      .optional()
+      .describe('Project name. If not provided, a unique name will be generated automatically.'),
+    description: z.string().optional().describe('Project description. Used in package.json and documentation.'),
+    preset: z
+      .string()
+      .optional()
+      .describe(
+        'Named preset to start from. Architecture fields set here override the preset. Call list_presets to see the available presets.'
+      ),
+    architecture: z
+      .object({
+        typescript: z
+          .boolean()
+          .default(true)
+          .describe('Enable TypeScript. Configures the project with TypeScript support.'),
+        reactCompiler: z
+          .boolean()
+          .default(false)
+          .describe('Enable React Compiler. Experimental React compiler for automatic optimization.'),
+        skipInstall: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe('Skip npm/pnpm install during setup. Useful for CI/CD or manual dependency management.'),
+        packageManager: z
+          .enum(['npm', 'pnpm', 'yarn', 'bun'])
+          .default('pnpm')
+          .describe('Package manager to use. Determines which commands are used for installing dependencies.'),
+        database: choice('database')
+          .default('postgres')
+          .describe('Database system. Configures the appropriate database driver and connection.'),
+        orm: choice('orm')
+          .default('prisma')
+          .describe('ORM/database toolkit. Sets up the chosen ORM with appropriate configurations.'),
+        auth: choice('auth')
+          .default('better-auth')
+          .describe('Authentication system. Configures authentication with the selected provider.'),
+        uiLibrary: choice('uiLibrary')
+          .default('shadcn')
+          .describe('UI component library. Installs and configures the selected UI library.'),
+        stateManagement: choice('stateManagement')
+          .default('none')
+          .describe('State management solution. Sets up global state management with the chosen library.'),
+        testing: choice('testing')
+          .default('none')
+          .describe('Testing framework. Configures unit/integration testing or E2E testing setup.'),
+      })
+      .describe('Project architecture configuration. Defines the technology stack and features.'),
+  });
+}
+
+export const ProjectConfigFieldsSchema = createProjectConfigFieldsSchema();
+
+export type Architecture = z.infer<typeof ProjectConfigFieldsSchema>['architecture'];
+
+// Databases each ORM can generate a working setup for
+export const ORM_DATABASES: Record<Exclude<Architecture['orm'], 'none'>, Architecture['database'][]> = {
+  prisma: ['postgres', 'mysql', 'sqlite', 'mongodb'],
+  drizzle: ['postgres', 'mysql', 'sqlite'],
+  kysely: ['postgres', 'mysql', 'sqlite'],
+  mongoose: ['mongodb'],
+};
+
+// Databases each ORM supports, including ORMs registered by plugins
+export type OrmDatabases = Record<string, readonly string[]>;
+
+export const formatChoices = (values: readonly string[]) => {
+  const quoted = values.map((value) => `"${value}"`);
+  return quoted.length > 1 ? `${quoted.slice(0, -1).join(', ')} or ${quoted.at(-1)}` : quoted.join('');
+};
+
+/**
+ * Finds architecture combinations the setup tools cannot generate, each with a suggested fix.
+ * Paths are relative to the architecture object.
+ */
+export function getArchitectureIssues(
+  architecture: Architecture,
+  ormDatabases: OrmDatabases = ORM_DATABASES
+): Array<{ path: string[]; message: string }> {
+  const { database, orm, auth } = architecture;
+  const issues: Array<{ path: string[]; message: string }> = [];
+
+  // A plugin ORM without a database list is not restricted
+  const supported = ormDatabases[orm];
+  if (orm !== 'none' && supported && !supported.includes(database)) {
+    const orms = Object.keys(ormDatabases).filter((candidate) => ormDatabases[candidate].includes(database));
+    issues.push({
+      path: ['orm'],
+      message:
+        database === 'none'
+          ? `${orm} needs a database. Set database to ${formatChoices(supported)}, or set orm to "none".`
+          : `${orm} does not support ${database}. Set database to ${formatChoices(supported)}, or set orm to ${formatChoices([...orms, 'none'])}.`,
+    });
+  }
+
+  if (auth === 'better-auth' && database === 'none') {
+    issues.push({
+      path: ['auth'],
+      message: `Better Auth requires a database. Set database to ${formatChoices(['postgres', 'mysql', 'sqlite', 'mongodb'])}, or set auth to "none".`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Adds the cross-field architecture rules to a fields schema
+ */
+export function createProjectConfigSchema(fieldsSchema: typeof ProjectConfigFieldsSchema, ormDatabases?: OrmDatabases) {
+  return fieldsSchema.superRefine((config, ctx) => {
+    for (const issue of getArchitectureIssues(config.architecture, ormDatabases)) {
+      ctx.addIssue({ code: 'custom', path: ['architecture', ...issue.path], message: issue.message });
+    }
+  });
+}
+
+// Zod schema for ProjectConfig with validation, defaults and cross-field rules
+export const ProjectConfigSchema = createProjectConfigSchema(ProjectConfigFieldsSchema);
+
+export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
+
+/**
+ * Lists validation problems one per line, each prefixed with the path of the offending field
+ */
+export function formatValidationError(error: z.ZodError): string {
+  return error.issues.map((issue) => `- ${issue.path.join('.') || '(arguments)'}: ${issue.message}`).join('\n');
+}
+
+/**
+ * Validates and applies defaults to the project config using Zod schema
+ * @param schema Pass a fields schema to accept combinations the cross-field rules reject, or schemas extended by plugins
+ * @param options.preset Merge the preset the config names underneath it first ("named"), falling back to the user's
+ * "default" preset for the config of a new project ("default"). Configs read from a manifest get no preset.
+ */
+export async function parseProjectConfig(
+  config: unknown,
+  schema: typeof ProjectConfigFieldsSchema = ProjectConfigSchema,
+  options: { preset?: 'named' | 'default' } = {}
+): Promise<ProjectConfig> {
+  // Parse and validate the config, applying the preset and then defaults from the schema
+  const validated = schema.parse(
+    options.preset && typeof config === 'object' && config !== null
+      ? await applyPreset(config as Record<string, unknown>, options.preset === 'default')
+      : config
+  );
+
+  // Apply name default if not provided (using unique name generator)
+  return {
+    ...validated,
+    name: validated.name ?? `${uniqueNamesGenerator(uniqueNamesGeneratorConfig)}-app`,
+    description: validated.description ?? 'A Next.js application scaffolded with an AI Agent MCP',
+  };
+}
@@ -0,0 +1,115 @@
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// ES module equivalent of __dirname
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Setup log directory in user's HOME directory
+export const LOG_DIR = path.join(os.homedir(), '.next-mcp');
+
+// Manifest written to the project root recording how it was scaffolded
+export const MANIFEST_FILENAME = '.next-mcp.json';
+
+// Time limits for shell commands; installs get longer because they download packages
+export const COMMAND_TIMEOUT_MS = 10 * 60 * 1000;
+export const INSTALL_COMMAND_TIMEOUT_MS = 20 * 60 * 1000;
+// Grace period between SIGTERM and SIGKILL when stopping a command
+export const COMMAND_KILL_GRACE_MS = 5000;
+// Number of output lines included when a command fails or is stopped
+export const COMMAND_OUTPUT_TAIL_LINES = 20;
+
+// Largest request body the HTTP transport reads, and how long an HTTP session may sit unused before it is closed
+export const HTTP_MAX_BODY_BYTES = 1024 * 1024;
+export const HTTP_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Number of log lines returned by the log resource
+export const LOG_RESOURCE_TAIL_LINES = 200;
+
+// Journals of recent file changes, one file per project, used by rollback_last_operation
+export const JOURNAL_DIR = path.join(LOG_DIR, 'journal');
+export const JOURNAL_HISTORY_LIMIT = 10;
+
+// Prisma configuration constants
+export const PRISMA_OUTPUT_PATH = '../src/lib/db/.prisma';
+export const PRISMA_GENERATED_DIR = 'src/lib/db/.prisma';
+
+// Package version constants - centralized version management
+export const CREATE_NEXT_APP_VERSION = 'create-next-app@^16';
+export const PACKAGE_VERSIONS = {
+  // State Management
+  zustand: '^5',
+  '@reduxjs/toolkit': '^2',
+  'react-redux': '^9',
+  '@types/react-redux': '^7',
+
+  // ORM & Database
+  '@prisma/client': '^7',
+  prisma: '^7',
+  'drizzle-orm': '^0.44.6',
+  'drizzle-kit': '^0.31.5',
+  kysely: '^0.28',
+  'kysely-ctl': '^0.19',
+  mongoose: '^8',
+
+  // Database Drivers
+  pg: '^8',
+  '@types/pg': '^8',
+  '@prisma/adapter-pg': '^7',
+  '@prisma/adapter-mariadb': '^7',
+  '@prisma/adapter-better-sqlite3': '^7',
+  mariadb: '^3',
+  mysql2: '^3',
+  mongodb: '^6',
+  'better-sqlite3': '^12',
+  '@types/better-sqlite3': '^7',
+
+  // UI Libraries
+  '@tanstack/react-table': '^8',
+  'react-hook-form': '^7',
+  '@hookform/resolvers': '^5',
+
+  // Authentication
+  'better-auth': '^1',
+  '@daveyplate/better-auth-ui': '^3',
+
+  // Testing - Vitest
+  vitest: '^1',
+  '@vitejs/plugin-react': '^4',
+  '@testing-library/react': '^14',
+  '@testing-library/jest-dom': '^6',
+  jsdom: '^23.0.1',
+
+  // Testing - Jest
+  jest: '^29',
+  'jest-environment-jsdom': '^29',
+
+  // Testing - Playwright
+  '@playwright/test': '^1',
+
+  // Utilities
+  dotenv: '^17',
+  tsx: '^4',
+  zod: '^4',
+  '@types/node': '^24',
+} as const;
+
+// Prisma 7 does not support MongoDB yet, so MongoDB projects stay on Prisma 6
+export const PRISMA_MONGODB_VERSION = '^6';
+
+export const DEFAULT_DOCKER_BASE_IMAGE = 'node:24-alpine';
+
+export const PRESETS_DIR = path.join(LOG_DIR, 'presets');
+
+// Built-in templates, copied into dist by the build
+export const TEMPLATES_DIR = path.join(__dirname, 'templates');
+
+// Templates here shadow the built-in template with the same relative path, unless --templates-dir says otherwise
+export const DEFAULT_TEMPLATE_OVERRIDES_DIR = path.join(LOG_DIR, 'templates');
+
+// Preset applied when a config names none, if the user has saved one under this name
+export const DEFAULT_PRESET_NAME = 'default';
+
+// Lists the plugins to load at startup, as npm package names or module paths relative to the file
+export const SERVER_CONFIG_PATH = path.join(LOG_DIR, 'config.json');
@@ -0,0 +1,236 @@
+import { existsSync, promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import type { ProjectConfig } from './config.js';
+import { FileJournal } from './journal.js';
+import { assertPathAllowed } from './paths.js';
+import type { NextMCPPlugin } from './plugins.js';
+import { TemplateRenderer } from './template-renderer.js';
+
+export type ExecutionPlan = {
+  commands: Array<{ command: string; cwd: string }>;
+  directories: string[];
+  filesCreated: string[];
+  filesModified: string[];
+  envChanges: Record<string, string[]>;
+  packageJsonChanges: string[];
+  warnings: string[];
+  nextSteps: string[];
+};
+
+// total is the number of steps when the tool knows it in advance, like the create_full_project pipeline
+export type ProgressReporter = (progress: number, message: string, total?: number) => void | Promise<void>;
+
+type ToolRunOptions = {
+  dryRun?: boolean;
+  // Receives a message as each long-running step starts
+  onProgress?: ProgressReporter;
+  // Cancels running shell commands when aborted
+  signal?: AbortSignal;
+  // Directories the run may write into; anything may be written when unset
+  allowedRoots?: string[];
+  templates?: TemplateRenderer;
+  // Plugins whose hooks the handlers call
+  plugins?: NextMCPPlugin[];
+};
+
+/**
+ * Per-call context that handlers use for every project write and shell command.
+ * It records what the call does; in dry-run mode nothing reaches the disk: writes are kept
+ * in memory (so later reads in the same call see them) and commands are only recorded.
+ */
+export class ToolRunContext {
+  readonly journal = new FileJournal();
+  readonly plan: ExecutionPlan = {
+    commands: [],
+    directories: [],
+    filesCreated: [],
+    filesModified: [],
+    envChanges: {},
+    packageJsonChanges: [],
+    warnings: [],
+    nextSteps: [],
+  };
+  private readonly pendingWrites = new Map<string, string>();
+  private readonly createdByCommands = new Set<string>();
+  private progress = 0;
+  private progressTotal?: number;
+  private progressStepBase = 0;
+  private progressStepReports = 0;
+
+  readonly dryRun: boolean;
+  readonly signal?: AbortSignal;
+  readonly plugins: NextMCPPlugin[];
+  private readonly onProgress?: ProgressReporter;
+  private readonly allowedRoots?: string[];
+  private readonly templates: TemplateRenderer;
+
+  constructor(options: ToolRunOptions = {}) {
+    this.dryRun = options.dryRun ?? false;
+    this.signal = options.signal;
+    this.plugins = options.plugins ?? [];
+    this.onProgress = options.onProgress;
+    this.allowedRoots = options.allowedRoots;
+    this.templates = options.templates ?? new TemplateRenderer();
+  }
+
+  /**
+   * Throws when a path lies outside the directories this server may write into
+   */
+  async assertWritable(targetPath: string) {
+    await assertPathAllowed(targetPath, this.allowedRoots);
+  }
+
+  /**
+   * Reports the start of the next long-running step to the client, if it asked for progress
+   * @param step Position of the step in a known number of steps. Progress is then the count of finished steps, and
+   * later reports without a step fall between it and the next, so progress keeps increasing and stays below total.
+   */
+  async reportProgress(message: string, step?: { index: number; total: number }) {
+    if (step) {
+      this.progressTotal = step.total;
+      this.progressStepBase = step.index;
+      this.progressStepReports = 0;
+      this.progress = step.index;
+    } else if (this.progressTotal === undefined) {
+      this.progress += 1;
+    } else {
+      this.progressStepReports += 1;
+      this.progress = this.progressStepBase + this.progressStepReports / (this.progressStepReports + 1);
+    }
+    await this.onProgress?.(this.progress, message, this.progressTotal);
+  }
+
+  exists(filePath: string): boolean {
+    return this.pendingWrites.has(path.resolve(filePath)) || existsSync(filePath);
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    const pending = this.pendingWrites.get(path.resolve(filePath));
+    if (pending !== undefined) {
+      return pending;
+    }
+    return fs.readFile(filePath, 'utf-8');
+  }
+
+  /**
+   * Reads a project file that is about to be patched. During a dry run the file may not exist yet
+   * because the command that creates it (e.g. create-next-app) was only planned, so it is treated as empty.
+   */
+  async readFileForUpdate(filePath: string): Promise<string> {
+    const resolvedPath = path.resolve(filePath);
+    if (this.dryRun && !this.exists(resolvedPath)) {
+      this.createdByCommands.add(resolvedPath);
+      return '';
+    }
+    return this.readFile(resolvedPath);
+  }
+
+  async writeFile(filePath: string, content: string) {
+    const resolvedPath = path.resolve(filePath);
+    await this.assertWritable(resolvedPath);
+    const previous = this.createdByCommands.has(resolvedPath)
+      ? ''
+      : await this.readFile(resolvedPath).catch(() => undefined);
+    this.recordWrite(resolvedPath, previous, content);
+
+    if (this.dryRun) {
+      this.pendingWrites.set(resolvedPath, content);
+      return;
+    }
+    await this.journal.snapshot(resolvedPath);
+    await fs.writeFile(resolvedPath, content);
+  }
+
+  async mkdir(dirPath: string) {
+    const resolvedPath = path.resolve(dirPath);
+    await this.assertWritable(resolvedPath);
+    if (!existsSync(resolvedPath) && !this.plan.directories.includes(resolvedPath)) {
+      this.plan.directories.push(resolvedPath);
+    }
+
+    if (!this.dryRun) {
+      // Journal the top-most directory that mkdir creates so a rollback can remove the whole tree
+      let topMissing: string | undefined;
+      for (let dir = resolvedPath; !existsSync(dir); dir = path.dirname(dir)) {
+        topMissing = dir;
+      }
+      await fs.mkdir(resolvedPath, { recursive: true });
+      if (topMissing) {
+        this.journal.recordDirectory(topMissing);
+      }
+    }
+  }
+
+  /**
+   * Renders a template with the project config as `it`, plus any tool-specific data
+   */
+  renderTemplate(name: string, config: ProjectConfig, data: Record<string, unknown> = {}): Promise<string> {
+    return this.templates.render(name, { ...config, ...data });
+  }
+
+  recordCommand(command: string, cwd: string) {
+    this.plan.commands.push({ command, cwd });
+  }
+
+  warn(message: string) {
+    this.plan.warnings.push(message);
+  }
+
+  addNextSteps(...steps: string[]) {
+    // Pipeline steps often share a next step such as starting the dev server
+    this.plan.nextSteps.push(...steps.filter((step) => !this.plan.nextSteps.includes(step)));
+  }
+
+  private recordWrite(filePath: string, previous: string | undefined, content: string) {
+    const { filesCreated, filesModified } = this.plan;
+    if (previous === undefined) {
+      if (!filesCreated.includes(filePath)) filesCreated.push(filePath);
+    } else if (!filesCreated.includes(filePath) && !filesModified.includes(filePath)) {
+      filesModified.push(filePath);
+    }
+
+    const fileName = path.basename(filePath);
+    if (fileName.startsWith('.env')) {
+      const before = this.parseEnvKeys(previous ?? '');
+      const after = this.parseEnvKeys(content);
+      const changedKeys = [...after.keys()].filter((key) => before.get(key) !== after.get(key));
+      if (changedKeys.length > 0) {
+        const keys = new Set([...(this.plan.envChanges[filePath] ?? []), ...changedKeys]);
+        this.plan.envChanges[filePath] = [...keys];
+      }
+    } else if (fileName === 'package.json') {
+      this.recordPackageJsonChanges(previous || '{}', content);
+    }
+  }
+
+  private parseEnvKeys(content: string): Map<string, string> {
+    const entries = new Map<string, string>();
+    for (const line of content.split('\n')) {
+      const match = line.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)=(.*)$/);
+      if (match) entries.set(match[1], match[2]);
+    }
+    return entries;
+  }
+
+  private recordPackageJsonChanges(previous: string, content: string) {
+    const before = JSON.parse(previous);
+    const after = JSON.parse(content);
+
+    for (const section of ['scripts', 'dependencies', 'devDependencies']) {
+      const beforeSection: Record<string, string> = before[section] ?? {};
+      const afterSection: Record<string, string> = after[section] ?? {};
+      for (const [key, value] of Object.entries(afterSection)) {
+        if (beforeSection[key] === undefined) {
+          this.plan.packageJsonChanges.push(`+ ${section}.${key}: ${value}`);
+        } else if (beforeSection[key] !== value) {
+          this.plan.packageJsonChanges.push(`~ ${section}.${key}: ${beforeSection[key]} -> ${value}`);
+        }
+      }
+    }
+
+    if (after.description !== before.description) {
+      this.plan.packageJsonChanges.push(`~ description: ${after.description}`);
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import { ChildProcess, spawn } from 'node:child_process';
+
+import { COMMAND_KILL_GRACE_MS, COMMAND_OUTPUT_TAIL_LINES, COMMAND_TIMEOUT_MS } from './constants.js';
+import { ToolRunContext } from './context.js';
+import { logger } from './logger.js';
+
+export function getPackageRunner(packageManager: string): string {
+  switch (packageManager) {
+    case 'pnpm':
+      return 'pnpm exec';
+    case 'yarn':
+      return 'yarn';
+    case 'bun':
+      return 'bunx';
+    case 'npm':
+    default:
+      return 'npx';
+  }
+}
+
+export function getPackageRunnerDlx(packageManager: string): string {
+  switch (packageManager) {
+    case 'pnpm':
+      return 'pnpm dlx';
+    case 'yarn':
+      return 'yarn dlx';
+    case 'bun':
+      return 'bunx';
+    case 'npm':
+    default:
+      return 'npx';
+  }
+}
+
+/**
+ * Execute a shell command without blocking the server, streaming its output to the logger.
+ * The command is stopped when it exceeds its timeout or the client cancels the tool call.
+ * @param ctx The tool run context; in dry-run mode the command is only recorded
+ * @param command The command to execute
+ * @param projectPath The working directory for the command
+ * @param commandLabel A human-readable label for logging (e.g., "prisma init", "auth schema generation")
+ * @param timeoutMs Time after which the command is killed
+ * @returns Object with success flag, stdout and, on failure, the reason with the last lines of output
+ */
+export async function execCommand(
+  ctx: ToolRunContext,
+  command: string,
+  projectPath: string,
+  commandLabel: string,
+  timeoutMs = COMMAND_TIMEOUT_MS
+): Promise<{ success: boolean; output?: string; error?: string }> {
+  await ctx.assertWritable(projectPath);
+  ctx.recordCommand(command, projectPath);
+  await ctx.reportProgress(`${ctx.dryRun ? 'Planning' : 'Running'} ${commandLabel}: ${command}`);
+
+  if (ctx.dryRun) {
+    logger.info(`[dry run] Skipping ${commandLabel}: ${command}`);
+    return { success: true, output: '' };
+  }
+
+  if (ctx.signal?.aborted) {
+    logger.warn(`Skipping ${commandLabel}: the tool call was cancelled`);
+    return { success: false, error: 'The tool call was cancelled before this command started' };
+  }
+
+  logger.info(`Running ${commandLabel}: ${command}`);
+
+  const child = spawn(command, {
+    cwd: projectPath,
+    shell: true,
+    stdio: ['ignore', 'pipe', 'pipe'],
+    // Own process group, so the whole tree (e.g. npx -> node -> installer) can be killed
+    detached: process.platform !== 'win32',
+  });
+
+  let stdout = '';
+  const outputLines: string[] = [];
+  const streamToLogger = (stream: NodeJS.ReadableStream, name: 'stdout' | 'stderr') => {
+    let pending = '';
+    stream.setEncoding('utf-8');
+    stream.on('data', (chunk: string) => {
+      if (name === 'stdout') stdout += chunk;
+      const lines = (pending + chunk).split('\n');
+      pending = lines.pop() ?? '';
+      for (const line of lines) {
+        outputLines.push(line);
+        logger.info(`[${commandLabel} ${name}] ${line}`);
+      }
+    });
+    stream.on('end', () => {
+      if (pending) {
+        outputLines.push(pending);
+        logger.info(`[${commandLabel} ${name}] ${pending}`);
+      }
+    });
+  };
+  streamToLogger(child.stdout!, 'stdout');
+  streamToLogger(child.stderr!, 'stderr');
+
+  let stopReason: string | undefined;
+  const stop = (reason: string) => {
+    if (stopReason || child.exitCode !== null) return;
+    stopReason = reason;
+    logger.warn(`Stopping ${commandLabel}: ${reason}`);
+    killProcessTree(child);
+  };
+  const timer = setTimeout(() => stop(`timed out after ${Math.round(timeoutMs / 1000)}s`), timeoutMs);
+  const onAbort = () => stop('cancelled by the client');
+  ctx.signal?.addEventListener('abort', onAbort, { once: true });
+
+  const exit = await new Promise<{ code: number | null; error?: Error }>((resolve) => {
+    child.on('error', (error) => resolve({ code: null, error }));
+    child.on('close', (code) => resolve({ code }));
+  });
+  clearTimeout(timer);
+  ctx.signal?.removeEventListener('abort', onAbort);
+
+  if (!stopReason && !exit.error && exit.code === 0) {
+    logger.info(`${commandLabel} completed successfully`);
+    return { success: true, output: stdout };
+  }
+
+  const reason = stopReason ?? exit.error?.message ?? `exited with code ${exit.code}`;
+  const tail = outputLines.slice(-COMMAND_OUTPUT_TAIL_LINES).join('\n').trim();
+  logger.error(`[${commandLabel} failed]:`, { command, reason, output: tail });
+  logger.warn(`${commandLabel} failed - user will need to run manually`);
+  return {
+    success: false,
+    output: stdout,
+    error: `${reason}. Check logs for details${tail ? `\n[Partial output]:\n${tail}` : ''}`,
+  };
+}
+
+/**
+ * Stops a command started by execCommand together with every process it spawned
+ */
+function killProcessTree(child: ChildProcess) {
+  if (!child.pid) return;
+
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { stdio: 'ignore' });
+    return;
+  }
+
+  const signalGroup = (signal: NodeJS.Signals) => {
+    try {
+      process.kill(-child.pid!, signal);
+    } catch {
+      // The process group already exited
+    }
+  };
+  signalGroup('SIGTERM');
+  setTimeout(() => signalGroup('SIGKILL'), COMMAND_KILL_GRACE_MS).unref();
+}
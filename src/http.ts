@@ -0,0 +1,186 @@
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import http from 'node:http';
+
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+import { HTTP_MAX_BODY_BYTES, HTTP_SESSION_IDLE_TIMEOUT_MS } from './constants.js';
+import { logger } from './logger.js';
+import { NextMCPServer, type ServerOptions } from './server.js';
+
+export interface HttpServerHandle {
+  server: http.Server;
+  url: string;
+  /** Closes every session, then stops the server */
+  close: () => Promise<void>;
+}
+
+type HttpSession = {
+  transport: StreamableHTTPServerTransport;
+  // Requests still being answered, including open event streams; the idle timer only runs while there are none
+  activeRequests: number;
+  idleTimer?: NodeJS.Timeout;
+};
+
+/**
+ * Serves next-mcp over Streamable HTTP so several clients can share one instance.
+ * Each client session gets its own server and transport, closed once it has been idle for sessionIdleTimeoutMs.
+ */
+export async function runHttpServer(
+  options: ServerOptions & { host: string; port: number; authToken?: string; sessionIdleTimeoutMs?: number }
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, HttpSession>();
+  const sessionIdleTimeoutMs = options.sessionIdleTimeoutMs ?? HTTP_SESSION_IDLE_TIMEOUT_MS;
+
+  const isAuthorized = (req: http.IncomingMessage) => {
+    if (!options.authToken) return true;
+    const expected = Buffer.from(`Bearer ${options.authToken}`);
+    const received = Buffer.from(req.headers.authorization ?? '');
+    return received.length === expected.length && timingSafeEqual(received, expected);
+  };
+
+  const sendError = (res: http.ServerResponse, status: number, message: string, code = -32000) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+  };
+
+  // Resolves with the body text, or undefined as soon as it grows past HTTP_MAX_BODY_BYTES
+  const readBody = (req: http.IncomingMessage) =>
+    new Promise<string | undefined>((resolve, reject) => {
+      if (Number(req.headers['content-length']) > HTTP_MAX_BODY_BYTES) {
+        resolve(undefined);
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const onData = (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > HTTP_MAX_BODY_BYTES) {
+          // Stop keeping the body but let the rest drain, so the 413 reaches the client
+          req.off('data', onData);
+          req.resume();
+          resolve(undefined);
+          return;
+        }
+        chunks.push(chunk);
+      };
+      req.on('data', onData);
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+      req.on('error', reject);
+    });
+
+  // Counts a request against its session, restarting the idle timer once the session has nothing in flight
+  const trackRequest = (session: HttpSession, res: http.ServerResponse) => {
+    clearTimeout(session.idleTimer);
+    session.activeRequests += 1;
+    res.once('close', () => {
+      session.activeRequests -= 1;
+      if (session.activeRequests === 0) {
+        session.idleTimer = setTimeout(() => {
+          logger.info(`HTTP session ${session.transport.sessionId} expired after ${sessionIdleTimeoutMs} ms idle`);
+          session.transport.close().catch((error) => logger.warn(`Could not close idle HTTP session: ${error}`));
+        }, sessionIdleTimeoutMs);
+        session.idleTimer.unref();
+      }
+    });
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      if (new URL(req.url ?? '/', 'http://localhost').pathname !== '/mcp') {
+        sendError(res, 404, 'Not found');
+        return;
+      }
+      if (!isAuthorized(req)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendError(res, 401, 'Unauthorized');
+        return;
+      }
+
+      const sessionId = req.headers['mcp-session-id'];
+      let body: unknown;
+      if (req.method === 'POST') {
+        const text = await readBody(req);
+        if (text === undefined) {
+          res.setHeader('Connection', 'close');
+          sendError(res, 413, `Payload too large: request bodies are limited to ${HTTP_MAX_BODY_BYTES} bytes`);
+          return;
+        }
+        try {
+          body = text ? JSON.parse(text) : undefined;
+        } catch {
+          sendError(res, 400, 'Parse error: Invalid JSON', -32700);
+          return;
+        }
+      }
+      const session = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+      let transport: StreamableHTTPServerTransport;
+
+      if (session) {
+        transport = session.transport;
+        trackRequest(session, res);
+      } else {
+        if (sessionId !== undefined || !isInitializeRequest(body)) {
+          sendError(res, 400, 'Bad Request: No valid session ID provided');
+          return;
+        }
+
+        const newTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            const newSession: HttpSession = { transport: newTransport, activeRequests: 0 };
+            sessions.set(id, newSession);
+            trackRequest(newSession, res);
+            logger.info(`HTTP session ${id} started`);
+          },
+        });
+        newTransport.onclose = () => {
+          if (newTransport.sessionId) {
+            clearTimeout(sessions.get(newTransport.sessionId)?.idleTimer);
+            sessions.delete(newTransport.sessionId);
+            logger.info(`HTTP session ${newTransport.sessionId} closed`);
+          }
+        };
+        await new NextMCPServer({
+          allowedRoots: options.allowedRoots,
+          templatesDir: options.templatesDir,
+          plugins: options.plugins,
+        }).connect(newTransport);
+        transport = newTransport;
+      }
+
+      await transport.handleRequest(req, res, body);
+    } catch (error) {
+      logger.error('Error handling HTTP request:', error);
+      if (!res.headersSent) {
+        sendError(res, 500, 'Internal server error');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+  const address = httpServer.address() as { port: number };
+  const url = `http://${options.host}:${address.port}/mcp`;
+  logger.info(`Next.js Scaffolding MCP server listening on ${url}`);
+  // stdout is free in HTTP mode; print the URL so the port is known when --port 0 is used
+  console.log(`next-mcp listening on ${url}`);
+
+  return {
+    server: httpServer,
+    url,
+    close: async () => {
+      await Promise.all([...sessions.values()].map((session) => session.transport.close()));
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close((error) => (error ? reject(error) : resolve()));
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
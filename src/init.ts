@@ -0,0 +1,124 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import readline from 'node:readline';
+import { parseArgs } from 'node:util';
+
+import { printToolResult, reportProgress, type CommandOptions } from './commands.js';
+import { loadPresets } from './presets.js';
+import { ARCHITECTURE_TRADE_OFFS, type ArchitectureField } from './prompts.js';
+import type { NextMCPServer } from './server.js';
+
+type FieldSchema = { type?: string; description?: string; default?: unknown; enum?: string[] };
+
+/**
+ * Reads answers line by line. Lines are buffered, so answers piped in ahead of the questions are not lost,
+ * and every question takes its default once the input ends.
+ */
+function createPrompter() {
+  const rl = readline.createInterface({ input: process.stdin, terminal: false });
+  const lines = rl[Symbol.asyncIterator]();
+  let ended = false;
+
+  const ask = async (question: string, fallback = ''): Promise<string> => {
+    process.stdout.write(`${question}${fallback ? ` [${fallback}]` : ''}: `);
+    const next = ended ? undefined : await lines.next();
+    if (!next || next.done) {
+      ended = true;
+      process.stdout.write('\n');
+      return fallback;
+    }
+    return next.value.trim() || fallback;
+  };
+
+  const choose = async (question: string, choices: string[], fallback: string): Promise<string> => {
+    for (;;) {
+      const answer = await ask(`${question} (${choices.join(', ')})`, fallback);
+      if (choices.includes(answer)) {
+        return answer;
+      }
+      console.log(`Choose one of ${choices.join(', ')}`);
+    }
+  };
+
+  const confirm = async (question: string, fallback: boolean): Promise<boolean> =>
+    (await choose(question, ['y', 'n'], fallback ? 'y' : 'n')) === 'y';
+
+  return { ask, choose, confirm, close: () => rl.close(), hasEnded: () => ended };
+}
+
+/**
+ * Builds a project config from answers to one question per field, checks it with check_config, and creates
+ * the project with scaffold_project or create_full_project. The questions and choices come from the
+ * scaffold_project schema, so architecture values added by plugins are offered too.
+ * @returns The process exit code
+ */
+export async function runInit(server: NextMCPServer, argv: string[], globalOptions: CommandOptions): Promise<number> {
+  const { values } = parseArgs({
+    args: argv,
+    options: { ...globalOptions, 'dry-run': { type: 'boolean' }, json: { type: 'boolean' } },
+  });
+  const scaffoldTool = server.listTools().find((tool) => tool.name === 'scaffold_project')!;
+  const configSchema = (scaffoldTool.inputSchema.properties as Record<string, { properties: Record<string, unknown> }>)
+    .config;
+  const fields = (configSchema.properties.architecture as { properties: Record<string, FieldSchema> }).properties;
+  const presets = await loadPresets();
+  const prompter = createPrompter();
+
+  try {
+    console.log('Create a Next.js project. Press Enter to accept the answer in brackets.\n');
+    const name = await prompter.ask('Project name (leave empty for a generated one)');
+    const description = await prompter.ask('Description (optional)');
+    const preset = await prompter.choose('Start from a preset', ['none', ...Object.keys(presets)], 'none');
+
+    const architecture: Record<string, unknown> = preset === 'none' ? {} : { ...presets[preset].architecture };
+    for (;;) {
+      for (const [field, schema] of Object.entries(fields)) {
+        const fallback = architecture[field] ?? schema.default;
+        console.log(`\n${ARCHITECTURE_TRADE_OFFS[field as ArchitectureField] ?? schema.description ?? ''}`);
+        if (schema.type === 'boolean') {
+          architecture[field] = await prompter.confirm(field, fallback === true);
+        } else if (schema.enum) {
+          architecture[field] = await prompter.choose(field, schema.enum, String(fallback));
+        }
+      }
+
+      const check = await server.runTool('check_config', { config: { architecture } });
+      if (!check.isError) {
+        break;
+      }
+      console.log(`\n${check.content.map((c) => c.text).join('\n')}`);
+      if (prompter.hasEnded()) {
+        return 1;
+      }
+      console.log('\nAnswer the questions again to fix these choices.');
+    }
+
+    const config = {
+      ...(name && { name }),
+      ...(description && { description }),
+      architecture,
+    };
+
+    console.log('');
+    const targetPath = path.resolve(await prompter.ask('Directory to create the project in', process.cwd()));
+    const fullSetup = await prompter.confirm(
+      'Run every setup step (shadcn, database, auth, components, Docker, README)',
+      true
+    );
+    const configFile = await prompter.ask('Save the config to a file for "next-mcp scaffold --config" (optional)');
+    if (configFile) {
+      await fs.writeFile(path.resolve(configFile), `${JSON.stringify(config, null, 2)}\n`);
+      console.log(`Saved the config to ${path.resolve(configFile)}`);
+    }
+
+    console.log('');
+    const result = await server.runTool(
+      fullSetup ? 'create_full_project' : 'scaffold_project',
+      { config, targetPath, dryRun: values['dry-run'] === true },
+      { onProgress: reportProgress }
+    );
+    return printToolResult(result, values.json === true);
+  } finally {
+    prompter.close();
+  }
+}
@@ -0,0 +1,168 @@
+import { createHash } from 'node:crypto';
+import { existsSync, promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import { JOURNAL_DIR, JOURNAL_HISTORY_LIMIT } from './constants.js';
+import { logger } from './logger.js';
+
+type JournalOperation = {
+  tool: string;
+  timestamp: string;
+  files: Array<{ path: string; original: string | null; writtenHash: string | null }>;
+  directories: string[];
+};
+
+/**
+ * Snapshots every file before a tool run first writes it so the run can be undone.
+ * Checkpoints split a run into segments (one per create_full_project step) that can be rolled back on their own.
+ */
+export class FileJournal {
+  private entries: Array<{ path: string; original: string | null; segment: number }> = [];
+  private directories: Array<{ path: string; segment: number }> = [];
+  private segment = 0;
+
+  checkpoint(): number {
+    this.segment += 1;
+    return this.segment;
+  }
+
+  async snapshot(filePath: string) {
+    if (this.entries.some((entry) => entry.path === filePath && entry.segment === this.segment)) {
+      return;
+    }
+    const original = await fs.readFile(filePath, 'utf-8').catch(() => null);
+    this.entries.push({ path: filePath, original, segment: this.segment });
+  }
+
+  recordDirectory(dirPath: string) {
+    this.directories.push({ path: dirPath, segment: this.segment });
+  }
+
+  /**
+   * Restores every file touched since the given checkpoint and removes directories it created
+   * @returns The number of files restored or removed
+   */
+  async rollback(fromSegment = 0): Promise<number> {
+    const entries = this.entries.filter((entry) => entry.segment >= fromSegment).reverse();
+    const directories = this.directories.filter((dir) => dir.segment >= fromSegment).reverse();
+
+    for (const entry of entries) {
+      await FileJournal.restoreFile(entry.path, entry.original);
+    }
+    for (const dir of directories) {
+      await FileJournal.removeEmptyDirectory(dir.path);
+    }
+
+    this.entries = this.entries.filter((entry) => entry.segment < fromSegment);
+    this.directories = this.directories.filter((dir) => dir.segment < fromSegment);
+    logger.info(`Rolled back ${entries.length} file change(s) and ${directories.length} director(ies)`);
+
+    return new Set(entries.map((entry) => entry.path)).size;
+  }
+
+  /**
+   * Saves the run as the latest operation for the project so rollback_last_operation can undo it later
+   */
+  async persist(projectPath: string, tool: string) {
+    if (this.entries.length === 0 && this.directories.length === 0) {
+      return;
+    }
+
+    const files: JournalOperation['files'] = [];
+    for (const entry of this.entries) {
+      if (files.some((file) => file.path === entry.path)) continue;
+      const current = await fs.readFile(entry.path, 'utf-8').catch(() => null);
+      files.push({ path: entry.path, original: entry.original, writtenHash: FileJournal.hash(current) });
+    }
+
+    const history = await FileJournal.loadHistory(projectPath);
+    history.push({
+      tool,
+      timestamp: new Date().toISOString(),
+      files,
+      directories: this.directories.map((dir) => dir.path),
+    });
+    await FileJournal.saveHistory(projectPath, history.slice(-JOURNAL_HISTORY_LIMIT));
+  }
+
+  /**
+   * Undoes the most recent persisted operation for a project. Files changed since that operation are left alone.
+   */
+  static async rollbackLast(projectPath: string) {
+    const history = await FileJournal.loadHistory(projectPath);
+    const operation = history.pop();
+    if (!operation) {
+      return undefined;
+    }
+
+    const restored: string[] = [];
+    const skipped: string[] = [];
+    for (const file of [...operation.files].reverse()) {
+      const current = await fs.readFile(file.path, 'utf-8').catch(() => null);
+      if (FileJournal.hash(current) !== file.writtenHash) {
+        skipped.push(file.path);
+        continue;
+      }
+      await FileJournal.restoreFile(file.path, file.original);
+      restored.push(file.path);
+    }
+    for (const dir of [...operation.directories].reverse()) {
+      await FileJournal.removeEmptyDirectory(dir);
+    }
+
+    await FileJournal.saveHistory(projectPath, history);
+    return { operation, restored, skipped };
+  }
+
+  private static hash(content: string | null): string | null {
+    return content === null ? null : createHash('sha256').update(content).digest('hex');
+  }
+
+  private static journalPath(projectPath: string): string {
+    const key = createHash('sha256').update(path.resolve(projectPath)).digest('hex').slice(0, 16);
+    return path.join(JOURNAL_DIR, `${key}.json`);
+  }
+
+  private static async loadHistory(projectPath: string): Promise<JournalOperation[]> {
+    try {
+      return JSON.parse(await fs.readFile(FileJournal.journalPath(projectPath), 'utf-8')).operations;
+    } catch {
+      return [];
+    }
+  }
+
+  private static async saveHistory(projectPath: string, operations: JournalOperation[]) {
+    await fs.mkdir(JOURNAL_DIR, { recursive: true });
+    await fs.writeFile(
+      FileJournal.journalPath(projectPath),
+      JSON.stringify({ projectPath: path.resolve(projectPath), operations }, null, 2)
+    );
+  }
+
+  private static async restoreFile(filePath: string, original: string | null) {
+    if (original === null) {
+      await fs.rm(filePath, { force: true });
+    } else {
+      await fs.writeFile(filePath, original);
+    }
+  }
+
+  /**
+   * Removes a directory created by a tool run, unless files were added to it since
+   */
+  private static async removeEmptyDirectory(dirPath: string) {
+    const containsFiles = async (dir: string): Promise<boolean> => {
+      const dirents = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+      for (const dirent of dirents) {
+        if (!dirent.isDirectory() || (await containsFiles(path.join(dir, dirent.name)))) {
+          return true;
+        }
+      }
+      return false;
+    };
+
+    if (existsSync(dirPath) && !(await containsFiles(dirPath))) {
+      await fs.rm(dirPath, { recursive: true, force: true });
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { existsSync, mkdirSync } from 'node:fs';
+import path from 'node:path';
+
+import winston from 'winston';
+
+import { LOG_DIR } from './constants.js';
+
+if (!existsSync(LOG_DIR)) {
+  mkdirSync(LOG_DIR, { recursive: true });
+}
+
+let logLevel = 'info';
+let logFilename = 'next-mcp.log';
+if (process.env.NODE_ENV === 'test') {
+  logLevel = 'debug';
+  logFilename = 'next-mcp-test.log';
+}
+
+export const logTransportFilename = path.join(LOG_DIR, logFilename);
+
+// Configure logger
+export const logger = winston.createLogger({
+  level: logLevel,
+  format: winston.format.json(),
+  transports: [new winston.transports.File({ filename: logTransportFilename })],
+});
@@ -0,0 +1,109 @@
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import { z } from 'zod';
+
+import details from '../package.json' with { type: 'json' };
+import type { ProjectConfig } from './config.js';
+import { MANIFEST_FILENAME } from './constants.js';
+import { ToolRunContext } from './context.js';
+import { logger } from './logger.js';
+import type { ToolStatus } from './tool-result.js';
+
+type ProjectManifest = {
+  version: string;
+  config: ProjectConfig;
+  tools: Record<string, { status: ToolStatus | 'rolled-back'; updatedAt: string }>;
+  files: Record<string, string>;
+};
+
+// Paths of generated files, relative to the project and inside it
+const ManifestFilePathSchema = z
+  .string()
+  .refine((file) => !path.isAbsolute(file) && !file.split(/[\\/]/).includes('..'), 'must be inside the project');
+
+// A manifest may come from a repository next-mcp did not create, so nothing in it is trusted unchecked.
+// The config is parsed with the full schema, plugin values included, by the tool that uses it.
+const ProjectManifestSchema = z.object({
+  version: z.string(),
+  config: z.looseObject({ architecture: z.looseObject({}) }),
+  tools: z.record(
+    z.string(),
+    z.object({ status: z.enum(['success', 'failed', 'skipped', 'blocked', 'rolled-back']), updatedAt: z.string() })
+  ),
+  files: z.record(ManifestFilePathSchema, z.string()),
+});
+
+export async function readManifest(projectPath: string): Promise<ProjectManifest | undefined> {
+  const content = await fs.readFile(path.join(projectPath, MANIFEST_FILENAME), 'utf-8').catch(() => undefined);
+  if (content === undefined) {
+    return undefined;
+  }
+
+  try {
+    return ProjectManifestSchema.parse(JSON.parse(content)) as ProjectManifest;
+  } catch (error) {
+    logger.warn(
+      `Ignoring invalid ${MANIFEST_FILENAME} in ${projectPath}: ${error instanceof Error ? error.message : error}`
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Loads the config recorded by scaffold_project for tools called without a config argument
+ */
+export async function readManifestConfig(projectPath: unknown): Promise<ProjectConfig> {
+  const manifest = typeof projectPath === 'string' ? await readManifest(projectPath) : undefined;
+  if (!manifest) {
+    throw new Error(
+      `No config provided and no ${MANIFEST_FILENAME} manifest found${typeof projectPath === 'string' ? ` in ${projectPath}` : ''}`
+    );
+  }
+
+  logger.info(`Using config from ${MANIFEST_FILENAME} in ${projectPath}`);
+  return manifest.config;
+}
+
+/**
+ * Records a tool run in the project manifest along with hashes of the files it generated.
+ * scaffold_project (or detect_project_config for existing projects) creates the manifest; other tools only update it.
+ */
+export async function updateManifest(
+  ctx: ToolRunContext,
+  projectPath: string,
+  tool: string,
+  status: ToolStatus | 'rolled-back',
+  config?: ProjectConfig
+) {
+  const existing = await readManifest(projectPath);
+  const createsManifest = tool === 'scaffold_project' || tool === 'detect_project_config';
+  if (!existing && (!createsManifest || status !== 'success')) {
+    return;
+  }
+
+  const manifest: ProjectManifest = existing ?? { version: details.version, config: config!, tools: {}, files: {} };
+  manifest.version = details.version;
+  manifest.tools[tool] = { status, updatedAt: new Date().toISOString() };
+
+  if (status === 'success' || status === 'skipped') {
+    if (config) {
+      manifest.config = config;
+    }
+
+    for (const filePath of [...ctx.plan.filesCreated, ...ctx.plan.filesModified]) {
+      const relativePath = path.relative(projectPath, filePath);
+      if (relativePath.startsWith('..') || relativePath === MANIFEST_FILENAME) continue;
+
+      const content = await fs.readFile(filePath, 'utf-8').catch(() => undefined);
+      if (content === undefined) {
+        delete manifest.files[relativePath];
+      } else {
+        manifest.files[relativePath] = createHash('sha256').update(content).digest('hex');
+      }
+    }
+  }
+
+  await fs.writeFile(path.join(projectPath, MANIFEST_FILENAME), `${JSON.stringify(manifest, null, 2)}\n`);
+}
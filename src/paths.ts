@@ -0,0 +1,41 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+/**
+ * Resolves every symlink in a path that may not exist yet, using its closest existing ancestor
+ */
+export async function resolveRealPath(targetPath: string): Promise<string> {
+  const resolvedPath = path.resolve(targetPath);
+
+  let existing = resolvedPath;
+  while (!(await fs.lstat(existing).catch(() => undefined)) && path.dirname(existing) !== existing) {
+    existing = path.dirname(existing);
+  }
+
+  // A dangling symlink cannot be resolved, so there is no telling where a write through it would land
+  const realExisting = await fs.realpath(existing).catch(() => {
+    throw new Error(`Access denied: ${existing} is a symlink to a missing target`);
+  });
+  return path.join(realExisting, path.relative(existing, resolvedPath));
+}
+
+export function isPathInside(root: string, targetPath: string): boolean {
+  const relativePath = path.relative(root, targetPath);
+  return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+}
+
+/**
+ * Throws a descriptive error when a path, after resolving traversal and symlinks, is outside every allowed root
+ */
+export async function assertPathAllowed(targetPath: string, allowedRoots?: string[]) {
+  if (!allowedRoots) return;
+
+  const realPath = await resolveRealPath(targetPath);
+  if (allowedRoots.some((root) => isPathInside(root, realPath))) return;
+
+  const resolvedPath = path.resolve(targetPath);
+  const target = realPath === resolvedPath ? resolvedPath : `${targetPath} (resolves to ${realPath})`;
+  throw new Error(
+    `Access denied: ${target} is outside the allowed roots: ${allowedRoots.join(', ')}. Use a path inside one of them.`
+  );
+}
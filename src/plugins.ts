@@ -0,0 +1,236 @@
+import { existsSync, promises as fs } from 'node:fs';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import { z } from 'zod';
+
+import {
+  ARCHITECTURE_CHOICES,
+  createProjectConfigFieldsSchema,
+  createProjectConfigSchema,
+  formatChoices,
+  formatValidationError,
+  ORM_DATABASES,
+  type ArchitectureChoice,
+  type ArchitectureExtensions,
+  type OrmDatabases,
+  type ProjectConfig,
+} from './config.js';
+import { ToolRunContext } from './context.js';
+import { execCommand } from './exec.js';
+import { logger } from './logger.js';
+import { writeSourceFile } from './source-files.js';
+import type { ToolResult } from './tool-result.js';
+import { TOOL_INPUT_SCHEMAS } from './tool-schemas.js';
+
+/**
+ * What a plugin tool can do in the project it was called on. Relative paths resolve against the project, and
+ * writes and commands go through the same dry-run, rollback and allowed-roots handling as the built-in tools.
+ */
+export type PluginToolContext = {
+  config: ProjectConfig;
+  projectPath: string;
+  dryRun: boolean;
+  exists(filePath: string): boolean;
+  readFile(filePath: string): Promise<string>;
+  // Creates missing parent directories
+  writeFile(filePath: string, content: string): Promise<void>;
+  // Writes a TypeScript source, type-stripped to JavaScript when TypeScript is disabled, and returns the path written
+  writeSourceFile(filePath: string, content: string): Promise<string>;
+  renderTemplate(name: string, data?: Record<string, unknown>): Promise<string>;
+  exec(command: string, label: string): Promise<{ success: boolean; output?: string; error?: string }>;
+  warn(message: string): void;
+  addNextSteps(...steps: string[]): void;
+};
+
+export type PluginTool = {
+  name: string;
+  description: string;
+  // Arguments accepted besides config, projectPath and dryRun, built with the z the plugin factory receives
+  input?: z.ZodRawShape;
+  // Returns the success message. Throwing fails the call and rolls back its file changes.
+  run(context: PluginToolContext, input: Record<string, unknown>): string | Promise<string>;
+};
+
+// Scripts and dependencies about to be merged into a project's package.json
+export type PackageJsonAdditions = {
+  scripts: Record<string, string>;
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+};
+
+export type NextMCPPlugin = {
+  name: string;
+  // Values added to the architecture choices, e.g. { orm: ['sequelize'] }
+  architecture?: ArchitectureExtensions;
+  // Databases each ORM added by the plugin supports; an ORM left out is accepted with any database
+  ormDatabases?: Record<string, string[]>;
+  // Absolute path of a directory of extra templates, looked up after the user's overrides and before the built-ins
+  templatesDir?: string;
+  tools?: PluginTool[];
+  // Adds to the scripts and dependencies scaffold_project writes into package.json
+  updatePackageJson?(additions: PackageJsonAdditions, config: ProjectConfig): void | Promise<void>;
+  // Markdown section added to the generated README
+  readme?(config: ProjectConfig): string | undefined | Promise<string | undefined>;
+};
+
+// A plugin module's default export: the plugin, or a function given the server's zod that returns it
+type PluginExport = NextMCPPlugin | ((api: { z: typeof z }) => NextMCPPlugin | Promise<NextMCPPlugin>);
+
+const ServerConfigSchema = z.object({
+  plugins: z.array(z.string()).optional().default([]),
+});
+
+/**
+ * Module URL for a plugin specifier. Paths resolve against baseDir, and so do package names, so a plugin
+ * installed next to the config is found; packages that cannot be resolved that way are left to import().
+ */
+function resolvePluginModule(specifier: string, baseDir: string): string {
+  if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+    return pathToFileURL(path.resolve(baseDir, specifier)).href;
+  }
+  try {
+    return pathToFileURL(createRequire(path.join(baseDir, 'package.json')).resolve(specifier)).href;
+  } catch {
+    return specifier;
+  }
+}
+
+/**
+ * Throws when a plugin is malformed or one of its tools reuses a taken name
+ * @param toolNames Names already taken, which the plugin's tool names are added to
+ */
+function assertValidPlugin(plugin: NextMCPPlugin, specifier: string, toolNames: Set<string>) {
+  if (typeof plugin?.name !== 'string' || plugin.name === '') {
+    throw new Error(`${specifier} does not export a plugin with a name`);
+  }
+
+  for (const [field, values] of Object.entries(plugin.architecture ?? {})) {
+    if (!(field in ARCHITECTURE_CHOICES)) {
+      throw new Error(
+        `Plugin "${plugin.name}" extends unknown architecture field "${field}". Use ${formatChoices(Object.keys(ARCHITECTURE_CHOICES))}.`
+      );
+    }
+    if (!Array.isArray(values) || !values.every((value) => typeof value === 'string' && value !== '')) {
+      throw new Error(`Plugin "${plugin.name}" must list architecture.${field} values as non-empty strings`);
+    }
+  }
+
+  if (plugin.templatesDir !== undefined && !path.isAbsolute(plugin.templatesDir)) {
+    throw new Error(`Plugin "${plugin.name}" templatesDir must be an absolute path`);
+  }
+
+  for (const tool of plugin.tools ?? []) {
+    if (!/^[a-z][a-z0-9_]*$/.test(tool.name)) {
+      throw new Error(
+        `Plugin "${plugin.name}" tool "${tool.name}" must be named with lowercase letters, digits and underscores`
+      );
+    }
+    if (toolNames.has(tool.name)) {
+      throw new Error(`Plugin "${plugin.name}" registers tool "${tool.name}", which is already taken`);
+    }
+    if (typeof tool.run !== 'function') {
+      throw new Error(`Plugin "${plugin.name}" tool "${tool.name}" has no run function`);
+    }
+    toolNames.add(tool.name);
+  }
+}
+
+/**
+ * Imports and validates plugins, in order, from npm package names or module paths
+ */
+export async function loadPlugins(specifiers: Array<{ specifier: string; baseDir: string }>): Promise<NextMCPPlugin[]> {
+  const plugins: NextMCPPlugin[] = [];
+  const toolNames = new Set<string>(Object.keys(TOOL_INPUT_SCHEMAS));
+
+  for (const { specifier, baseDir } of specifiers) {
+    let plugin: NextMCPPlugin;
+    try {
+      const module = await import(resolvePluginModule(specifier, baseDir));
+      const exported: PluginExport = module.default ?? module;
+      plugin = typeof exported === 'function' ? await exported({ z }) : exported;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not load plugin ${specifier}: ${errorMessage}`);
+    }
+
+    assertValidPlugin(plugin, specifier, toolNames);
+    plugins.push(plugin);
+    logger.info(`Loaded plugin ${plugin.name} from ${specifier} (${plugin.tools?.length ?? 0} tools)`);
+  }
+
+  return plugins;
+}
+
+/**
+ * Reads the plugins listed in the server config file, which is optional
+ */
+export async function readServerConfigPlugins(
+  configPath: string
+): Promise<Array<{ specifier: string; baseDir: string }>> {
+  if (!existsSync(configPath)) {
+    return [];
+  }
+
+  let config: z.infer<typeof ServerConfigSchema>;
+  try {
+    config = ServerConfigSchema.parse(JSON.parse(await fs.readFile(configPath, 'utf-8')));
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError ? formatValidationError(error) : String(error);
+    throw new Error(`Invalid server config ${configPath}:\n${errorMessage}`);
+  }
+  return config.plugins.map((specifier) => ({ specifier, baseDir: path.dirname(configPath) }));
+}
+
+/**
+ * Config schemas that also accept the architecture values the plugins add
+ */
+export function createPluginSchemas(plugins: NextMCPPlugin[]) {
+  const extensions: ArchitectureExtensions = {};
+  for (const plugin of plugins) {
+    for (const [field, values] of Object.entries(plugin.architecture ?? {}) as Array<[ArchitectureChoice, string[]]>) {
+      extensions[field] = [...(extensions[field] ?? []), ...values];
+    }
+  }
+
+  const ormDatabases: OrmDatabases = Object.assign({}, ORM_DATABASES, ...plugins.map((plugin) => plugin.ormDatabases));
+  const fieldsSchema = createProjectConfigFieldsSchema(extensions);
+  const configSchema = createProjectConfigSchema(fieldsSchema, ormDatabases);
+  return { ormDatabases, fieldsSchema, configSchema };
+}
+
+/**
+ * Runs a plugin tool with a context bound to the project it was called on
+ */
+export async function runPluginTool(
+  ctx: ToolRunContext,
+  tool: PluginTool,
+  config: ProjectConfig,
+  args: Record<string, unknown>
+): Promise<ToolResult> {
+  const projectPath = args.projectPath as string;
+  const resolve = (filePath: string) => path.resolve(projectPath, filePath);
+  const context: PluginToolContext = {
+    config,
+    projectPath,
+    dryRun: ctx.dryRun,
+    exists: (filePath) => ctx.exists(resolve(filePath)),
+    readFile: (filePath) => ctx.readFile(resolve(filePath)),
+    writeFile: async (filePath, content) => {
+      await ctx.mkdir(path.dirname(resolve(filePath)));
+      await ctx.writeFile(resolve(filePath), content);
+    },
+    writeSourceFile: async (filePath, content) => {
+      await ctx.mkdir(path.dirname(resolve(filePath)));
+      return writeSourceFile(ctx, config, resolve(filePath), content);
+    },
+    renderTemplate: (name, data) => ctx.renderTemplate(name, config, data),
+    exec: (command, label) => execCommand(ctx, command, projectPath, label),
+    warn: (message) => ctx.warn(message),
+    addNextSteps: (...steps) => ctx.addNextSteps(...steps),
+  };
+
+  const text = await tool.run(context, args);
+  return { status: 'success', content: [{ type: 'text', text }] };
+}
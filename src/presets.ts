@@ -0,0 +1,156 @@
+import { existsSync, promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import { z } from 'zod';
+
+import type { ProjectConfig } from './config.js';
+import { DEFAULT_PRESET_NAME, PRESETS_DIR } from './constants.js';
+import { ToolRunContext } from './context.js';
+import { logger } from './logger.js';
+import { PROJECT_PROMPTS } from './prompts.js';
+import type { ToolResult } from './tool-result.js';
+
+// A named set of architecture choices, stored as <name>.json in PRESETS_DIR
+const PresetSchema = z.object({
+  description: z.string().optional(),
+  architecture: z.record(z.string(), z.unknown()),
+});
+
+type Preset = z.infer<typeof PresetSchema> & { source: 'built-in' | 'user' };
+
+// The prompt starting points double as built-in presets; a user preset with the same name replaces one
+const BUILT_IN_PRESETS: Record<string, Preset> = Object.fromEntries(
+  Object.entries(PROJECT_PROMPTS).map(([name, { description, architecture }]) => [
+    name,
+    { description, architecture, source: 'built-in' },
+  ])
+);
+
+export const presetNameSchema = z
+  .string()
+  .regex(/^[a-z0-9][a-z0-9-]*$/, 'Use lowercase letters, digits and dashes')
+  .describe('Preset name, used as the file name in ~/.next-mcp/presets');
+
+/**
+ * Merges the named preset underneath the config, so fields set in the config win.
+ * @param useDefault Without a preset name, apply the user's "default" preset if one has been saved
+ */
+export async function applyPreset(
+  config: Record<string, unknown>,
+  useDefault = false
+): Promise<Record<string, unknown>> {
+  const presets = await loadPresets();
+  const name = typeof config.preset === 'string' ? config.preset : undefined;
+  const preset = name ? presets[name] : useDefault ? presets[DEFAULT_PRESET_NAME] : undefined;
+
+  if (name && !preset) {
+    throw new Error(`Unknown preset "${name}". Available presets: ${Object.keys(presets).join(', ')}`);
+  }
+  if (!preset) {
+    return config;
+  }
+
+  const architecture =
+    typeof config.architecture === 'object' && config.architecture !== null ? config.architecture : {};
+  logger.info(`Applying preset ${name ?? DEFAULT_PRESET_NAME}`);
+  return {
+    ...config,
+    preset: name ?? DEFAULT_PRESET_NAME,
+    architecture: { ...preset.architecture, ...architecture },
+  };
+}
+
+export async function loadPresets(): Promise<Record<string, Preset>> {
+  const presets: Record<string, Preset> = { ...BUILT_IN_PRESETS };
+  const files = await fs.readdir(PRESETS_DIR).catch(() => [] as string[]);
+
+  for (const file of files.filter((file) => file.endsWith('.json'))) {
+    try {
+      const preset = PresetSchema.parse(JSON.parse(await fs.readFile(path.join(PRESETS_DIR, file), 'utf-8')));
+      presets[path.basename(file, '.json')] = { ...preset, source: 'user' };
+    } catch (error) {
+      logger.warn(`Ignoring invalid preset ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return presets;
+}
+
+export async function listPresets(): Promise<ToolResult> {
+  const presets = await loadPresets();
+  const lines = Object.entries(presets).map(([name, preset]) => {
+    const architecture = Object.entries(preset.architecture)
+      .map(([field, value]) => `${field}: ${value}`)
+      .join(', ');
+    return `- ${name} (${preset.source})${preset.description ? `: ${preset.description}` : ''}\n  ${architecture}`;
+  });
+
+  return {
+    status: 'success',
+    content: [
+      {
+        type: 'text',
+        text: `📋 Available presets:\n\n${lines.join('\n')}\n\nStart a config from a preset with "preset": "<name>". Fields set in the config override the preset.`,
+      },
+    ],
+  };
+}
+
+export async function savePreset(
+  ctx: ToolRunContext,
+  name: string,
+  description: string | undefined,
+  config: ProjectConfig
+): Promise<ToolResult> {
+  const presetPath = path.join(PRESETS_DIR, `${name}.json`);
+  const existed = existsSync(presetPath);
+
+  await fs.mkdir(PRESETS_DIR, { recursive: true });
+  await fs.writeFile(presetPath, `${JSON.stringify({ description, architecture: config.architecture }, null, 2)}\n`);
+  (existed ? ctx.plan.filesModified : ctx.plan.filesCreated).push(presetPath);
+
+  if (name === DEFAULT_PRESET_NAME) {
+    ctx.warn('The "default" preset is applied to the config of every new project that names no other preset');
+  }
+  ctx.addNextSteps(`Use the preset with { "config": { "preset": "${name}" } }`);
+
+  return {
+    status: 'success',
+    content: [
+      {
+        type: 'text',
+        text: `✅ ${existed ? 'Updated' : 'Saved'} preset "${name}" in ${presetPath}\n\n[Architecture]:\n${JSON.stringify(config.architecture, null, 2)}`,
+      },
+    ],
+  };
+}
+
+export async function deletePreset(name: string): Promise<ToolResult> {
+  const presetPath = path.join(PRESETS_DIR, `${name}.json`);
+
+  if (!existsSync(presetPath)) {
+    return {
+      status: 'failed',
+      content: [
+        {
+          type: 'text',
+          text: BUILT_IN_PRESETS[name]
+            ? `❌ "${name}" is a built-in preset and cannot be deleted`
+            : `❌ No preset named "${name}" in ${PRESETS_DIR}`,
+        },
+      ],
+    };
+  }
+
+  await fs.rm(presetPath);
+
+  return {
+    status: 'success',
+    content: [
+      {
+        type: 'text',
+        text: `✅ Deleted preset "${name}"${BUILT_IN_PRESETS[name] ? ` - the built-in "${name}" preset applies again` : ''}`,
+      },
+    ],
+  };
+}
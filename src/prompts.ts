@@ -0,0 +1,111 @@
+import type { ProjectConfig } from './config.js';
+
+export type ArchitectureField = keyof ProjectConfig['architecture'];
+
+// Trade-offs explained by every project prompt, one entry per architecture field
+export const ARCHITECTURE_TRADE_OFFS: Record<ArchitectureField, string> = {
+  typescript: 'TypeScript catches errors at build time and powers editor tooling; plain JavaScript has less setup.',
+  reactCompiler:
+    'The React Compiler memoizes components automatically, but is still experimental and slows builds slightly.',
+  skipInstall: 'Skipping install makes scaffolding faster, but dependencies must be installed manually afterwards.',
+  packageManager:
+    'pnpm is fast and disk efficient, npm is available everywhere, yarn suits existing yarn monorepos, bun is fastest but least mature.',
+  database:
+    'postgres is the safest default for relational data, mysql fits existing MySQL hosting, sqlite needs no server but is single-node, mongodb suits document-shaped data, none skips persistence.',
+  orm: 'prisma has the richest tooling and migrations, drizzle is lighter and closer to SQL, kysely is a type-safe query builder with plain migrations, mongoose is the standard for mongodb, none leaves data access to you.',
+  auth: 'better-auth adds email/password login, sessions and protected routes; none keeps the app public and needs no database tables.',
+  uiLibrary:
+    'shadcn gives accessible, copy-in components built on Tailwind; none keeps the bundle minimal for custom designs.',
+  stateManagement:
+    'zustand is small and hook based, redux adds structure and devtools for large teams, none relies on server components and React state.',
+  testing:
+    'vitest is fast and Vite native, jest has the largest ecosystem, playwright covers end-to-end browser flows, none skips test setup.',
+};
+
+// Starting points offered as MCP prompts
+export const PROJECT_PROMPTS: Record<
+  string,
+  {
+    description: string;
+    goal: string;
+    architecture: Partial<ProjectConfig['architecture']>;
+    rationale: Partial<Record<ArchitectureField, string>>;
+  }
+> = {
+  'saas-starter': {
+    description: 'Multi-tenant SaaS app with accounts, a relational database and a full UI kit',
+    goal: 'a SaaS product where users sign up, log in and manage their own data',
+    architecture: {
+      database: 'postgres',
+      orm: 'prisma',
+      auth: 'better-auth',
+      uiLibrary: 'shadcn',
+      stateManagement: 'zustand',
+      testing: 'vitest',
+    },
+    rationale: {
+      database: 'Accounts, subscriptions and tenant data are relational, so postgres is the natural fit.',
+      orm: 'Prisma migrations keep the schema in sync across environments as the product grows.',
+      auth: 'Sign-up and sessions are needed from day one.',
+      stateManagement: 'zustand covers client state such as UI preferences without much boilerplate.',
+      testing: 'vitest keeps feedback fast for business logic.',
+    },
+  },
+  'internal-dashboard': {
+    description: 'Internal admin dashboard with login, data tables and a lightweight database layer',
+    goal: 'an internal tool where staff log in to view and edit operational data',
+    architecture: {
+      database: 'postgres',
+      orm: 'drizzle',
+      auth: 'better-auth',
+      uiLibrary: 'shadcn',
+      stateManagement: 'none',
+      testing: 'vitest',
+    },
+    rationale: {
+      database:
+        'Dashboards usually sit on top of an existing relational database; switch to mysql if that is what you have.',
+      orm: 'drizzle stays close to SQL, which suits reporting queries against an existing schema.',
+      auth: 'Internal data must stay behind a login.',
+      uiLibrary: 'shadcn provides tables, forms and dialogs out of the box.',
+      stateManagement: 'Server components and URL state are usually enough for dashboards.',
+    },
+  },
+  'marketing-site': {
+    description: 'Static-leaning marketing site without a database or authentication',
+    goal: 'a fast marketing or landing site with mostly static content',
+    architecture: {
+      database: 'none',
+      orm: 'none',
+      auth: 'none',
+      uiLibrary: 'shadcn',
+      stateManagement: 'none',
+      testing: 'playwright',
+    },
+    rationale: {
+      database: 'Content lives in the repo or a headless CMS, so no database is needed.',
+      auth: 'Visitors are anonymous.',
+      uiLibrary: 'shadcn speeds up building sections and forms; choose none for a fully custom design.',
+      testing: 'playwright checks that key pages render and forms submit in a real browser.',
+    },
+  },
+  'api-only': {
+    description: 'Backend-only Next.js app serving route handlers with no UI kit',
+    goal: 'an API served from Next.js route handlers, consumed by other clients',
+    architecture: {
+      database: 'postgres',
+      orm: 'drizzle',
+      auth: 'none',
+      uiLibrary: 'none',
+      stateManagement: 'none',
+      testing: 'vitest',
+    },
+    rationale: {
+      orm: 'drizzle has a small runtime footprint, which keeps route handlers fast to cold start.',
+      auth: 'APIs often authenticate with tokens from another system; pick better-auth if this app owns user accounts.',
+      uiLibrary: 'There are no pages to style.',
+      stateManagement: 'There is no client-side state.',
+      testing: 'vitest can exercise route handlers directly.',
+    },
+  },
+};
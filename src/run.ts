@@ -0,0 +1,54 @@
+import type { ProjectConfig } from './config.js';
+import { ToolRunContext } from './context.js';
+import { updateManifest } from './manifest.js';
+import type { ToolResult } from './tool-result.js';
+
+/**
+ * Runs a tool handler that changes a project, then settles its file changes: a run that throws or fails is rolled
+ * back, and a successful one is journaled for rollback_last_operation and recorded in the project manifest.
+ * A dry run changed nothing, so it is returned as is.
+ * @param projectPath The project the handler works on, or creates
+ */
+export async function runProjectTool(
+  ctx: ToolRunContext,
+  name: string,
+  config: ProjectConfig,
+  projectPath: string,
+  handler: () => Promise<ToolResult>
+): Promise<{ result: ToolResult; rolledBack: boolean }> {
+  let result: ToolResult;
+  try {
+    result = await handler();
+  } catch (error) {
+    await ctx.journal.rollback();
+    throw error;
+  }
+
+  if (ctx.dryRun) {
+    return { result, rolledBack: false };
+  }
+
+  // create_full_project rolls back and records each step itself, keeping the steps that succeeded
+  if (name === 'create_full_project') {
+    await ctx.journal.persist(projectPath, name);
+    return { result, rolledBack: false };
+  }
+
+  const { status } = result;
+  let rolledBack = false;
+  if (status === 'failed') {
+    const restoredCount = await ctx.journal.rollback();
+    rolledBack = true;
+    if (restoredCount > 0) {
+      result.content.push({
+        type: 'text',
+        text: `↩️ Rolled back ${restoredCount} file(s) changed before the failure`,
+      });
+    }
+  } else {
+    await ctx.journal.persist(projectPath, name);
+  }
+  await updateManifest(ctx, projectPath, name, status, config);
+
+  return { result, rolledBack };
+}
@@ -0,0 +1,738 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  RootsListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import details from '../package.json' with { type: 'json' };
+import {
+  formatValidationError,
+  parseProjectConfig,
+  ProjectConfigFieldsSchema,
+  ProjectConfigSchema,
+  type OrmDatabases,
+  type ProjectConfig,
+} from './config.js';
+import { LOG_RESOURCE_TAIL_LINES, MANIFEST_FILENAME } from './constants.js';
+import { ToolRunContext, type ProgressReporter } from './context.js';
+import { logger, logTransportFilename } from './logger.js';
+import { readManifest, readManifestConfig } from './manifest.js';
+import { assertPathAllowed, isPathInside, resolveRealPath } from './paths.js';
+import { createPluginSchemas, runPluginTool, type NextMCPPlugin, type PluginTool } from './plugins.js';
+import { deletePreset, listPresets, savePreset } from './presets.js';
+import { ARCHITECTURE_TRADE_OFFS, PROJECT_PROMPTS, type ArchitectureField } from './prompts.js';
+import { runProjectTool } from './run.js';
+import { TemplateRenderer } from './template-renderer.js';
+import { outputSchemaJson, toToolOutput, type ToolOutput, type ToolResult } from './tool-result.js';
+import {
+  createProjectToolInputSchema,
+  createToolInputSchemas,
+  PROJECT_CREATING_TOOLS,
+  type ToolInput,
+  type ToolInputSchemas,
+  type ToolName,
+} from './tool-schemas.js';
+import { setupAuthentication } from './tools/auth.js';
+import { checkConfig } from './tools/check-config.js';
+import { generateBaseComponents } from './tools/components.js';
+import { generateCrud } from './tools/crud.js';
+import { setupDatabase } from './tools/database.js';
+import { detectProjectConfig } from './tools/detect.js';
+import { generateDockerfile } from './tools/docker.js';
+import { generateModel } from './tools/model.js';
+import { createFullProject, type PipelineStepName } from './tools/pipeline.js';
+import { generateReadme } from './tools/readme.js';
+import { rollbackLastOperation } from './tools/rollback.js';
+import { scaffoldProject } from './tools/scaffold.js';
+import { setupSeed } from './tools/seed.js';
+import { setupShadcn } from './tools/shadcn.js';
+import { validateProject } from './tools/validate.js';
+
+/** TODO:
+ * - Add dark mode toggle
+ * - Add side bar or horizontal bar for navigation
+ * - Add user profile management
+ * - User button from better-auth-ui
+ * - Add organisations support
+ */
+
+export type ServerOptions = {
+  // Directories tools may write into; anything may be written when unset
+  allowedRoots?: string[];
+  // Directory whose templates shadow the built-in ones
+  templatesDir?: string;
+  // Plugins whose tools, architecture values and hooks are added to the built-in ones
+  plugins?: NextMCPPlugin[];
+};
+
+// A tool as listed to MCP clients
+export type ToolDefinition = {
+  name: string;
+  description: string;
+  inputSchema: z.core.JSONSchema.JSONSchema;
+};
+
+export class NextMCPServer {
+  private server: Server;
+  // Project the most recent tool call worked on, exposed through project:// resources
+  private currentProjectPath?: string;
+  // Roots reported by the client, fetched on first use and cleared when the client says they changed
+  private clientRoots?: string[];
+  private templates: TemplateRenderer;
+  private readonly plugins: NextMCPPlugin[];
+  // Schemas extended with the architecture values plugins add
+  private readonly ormDatabases: OrmDatabases;
+  private readonly fieldsSchema: typeof ProjectConfigFieldsSchema;
+  private readonly configSchema: typeof ProjectConfigSchema;
+  private readonly toolInputSchemas: ToolInputSchemas;
+  private readonly pluginTools = new Map<string, { tool: PluginTool; inputSchema: z.ZodObject }>();
+
+  constructor(private readonly options: ServerOptions = {}) {
+    this.plugins = options.plugins ?? [];
+    const { ormDatabases, fieldsSchema, configSchema } = createPluginSchemas(this.plugins);
+    this.ormDatabases = ormDatabases;
+    this.fieldsSchema = fieldsSchema;
+    this.configSchema = configSchema;
+    this.toolInputSchemas = createToolInputSchemas(fieldsSchema, configSchema);
+
+    const projectToolInputSchema = createProjectToolInputSchema(configSchema);
+    for (const tool of this.plugins.flatMap((plugin) => plugin.tools ?? [])) {
+      this.pluginTools.set(tool.name, { tool, inputSchema: projectToolInputSchema.extend(tool.input ?? {}) });
+    }
+
+    this.templates = new TemplateRenderer(
+      options.templatesDir,
+      this.plugins.flatMap((plugin) => plugin.templatesDir ?? [])
+    );
+    this.server = new Server(
+      {
+        name: details.name,
+        version: details.version,
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: { listChanged: true },
+          prompts: {},
+        },
+      }
+    );
+
+    this.setupToolHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
+
+    this.server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+      this.clientRoots = undefined;
+    });
+  }
+
+  /**
+   * Directories tools may write into. Roots from --allowed-root or NEXT_MCP_ALLOWED_ROOTS bound what the
+   * client's MCP roots can grant; with neither configured, every path is allowed.
+   */
+  private async getAllowedRoots(): Promise<string[] | undefined> {
+    const configuredRoots = this.options.allowedRoots
+      ? await Promise.all(this.options.allowedRoots.map((root) => resolveRealPath(root)))
+      : undefined;
+
+    if (this.server.getClientCapabilities()?.roots && !this.clientRoots) {
+      try {
+        const { roots } = await this.server.listRoots();
+        this.clientRoots = await Promise.all(
+          roots.filter((root) => root.uri.startsWith('file://')).map((root) => resolveRealPath(fileURLToPath(root.uri)))
+        );
+      } catch (error) {
+        logger.warn(`Could not list client roots: ${error}`);
+      }
+    }
+
+    if (!this.clientRoots || this.clientRoots.length === 0) {
+      return configuredRoots;
+    }
+    if (!configuredRoots) {
+      return this.clientRoots;
+    }
+
+    // Keep the deeper of each overlapping pair, so client roots can only narrow the configured ones
+    const roots = new Set<string>();
+    for (const clientRoot of this.clientRoots) {
+      for (const configuredRoot of configuredRoots) {
+        if (isPathInside(configuredRoot, clientRoot)) roots.add(clientRoot);
+        else if (isPathInside(clientRoot, configuredRoot)) roots.add(configuredRoot);
+      }
+    }
+    return [...roots];
+  }
+
+  private setupPromptHandlers() {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: Object.entries(PROJECT_PROMPTS).map(([name, prompt]) => ({
+        name,
+        description: prompt.description,
+        arguments: [
+          { name: 'targetPath', description: 'Directory to create the project in', required: true },
+          { name: 'name', description: 'Project name. Generated automatically if omitted.' },
+          { name: 'description', description: 'Short description of the project' },
+        ],
+      })),
+    }));
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args = {} } = request.params;
+      const prompt = PROJECT_PROMPTS[name];
+      if (!prompt) {
+        throw new Error(`Unknown prompt: ${name}`);
+      }
+      if (!args.targetPath) {
+        throw new Error(`Prompt ${name} requires a targetPath argument`);
+      }
+
+      const config = ProjectConfigSchema.parse({
+        name: args.name,
+        description: args.description,
+        architecture: prompt.architecture,
+      });
+
+      const fields = (Object.keys(ARCHITECTURE_TRADE_OFFS) as ArchitectureField[]).map((field) => {
+        const rationale = prompt.rationale[field] ? `\n  Why for this project: ${prompt.rationale[field]}` : '';
+        return `- ${field} (suggested: ${config.architecture[field]}): ${ARCHITECTURE_TRADE_OFFS[field]}${rationale}`;
+      });
+
+      const text = [
+        `Help me set up ${prompt.goal}, using the next-mcp scaffold_project tool.`,
+        '',
+        'Go through each architecture field below. Explain the trade-off, confirm or adjust the suggestion based on what I need, and keep the combination consistent (mongoose needs mongodb, better-auth and an ORM need a database).',
+        '',
+        ...fields,
+        '',
+        'Once the choices are settled, call scaffold_project with the final config. With the suggestions above, the call is:',
+        '',
+        '```json',
+        JSON.stringify({ name: 'scaffold_project', arguments: { config, targetPath: args.targetPath } }, null, 2),
+        '```',
+        '',
+        'To run every setup step in one go, call create_full_project with the same arguments instead.',
+      ].join('\n');
+
+      return {
+        description: prompt.description,
+        messages: [{ role: 'user', content: { type: 'text', text } }],
+      };
+    });
+  }
+
+  private setupResourceHandlers() {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const resources = (await this.templates.list()).map(({ name, overridden }) => ({
+        uri: `template://${name}`,
+        name,
+        description: overridden
+          ? `Template used when generating project files (overridden in ${this.templates.overridesDir})`
+          : 'Template used when generating project files',
+        mimeType: 'text/plain',
+      }));
+
+      const manifest = this.currentProjectPath ? await readManifest(this.currentProjectPath) : undefined;
+      if (manifest) {
+        resources.push({
+          uri: 'project://manifest',
+          name: MANIFEST_FILENAME,
+          description: `Manifest of the current project (${this.currentProjectPath})`,
+          mimeType: 'application/json',
+        });
+        for (const file of Object.keys(manifest.files).sort()) {
+          resources.push({
+            uri: `project://files/${file.split(path.sep).join('/')}`,
+            name: file,
+            description: 'File generated in the current project',
+            mimeType: 'text/plain',
+          });
+        }
+      }
+
+      resources.push({
+        uri: `log://${path.basename(logTransportFilename)}`,
+        name: path.basename(logTransportFilename),
+        description: `Last ${LOG_RESOURCE_TAIL_LINES} lines of the server log`,
+        mimeType: 'text/plain',
+      });
+
+      return { resources };
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const [scheme, resourcePath] = uri.split('://');
+      let text: string;
+      let mimeType = 'text/plain';
+
+      if (scheme === 'template') {
+        const templatePath = this.templates.resolve(resourcePath);
+        if (!templatePath) {
+          throw new Error(`Unknown resource: ${uri}`);
+        }
+        text = await fs.readFile(templatePath, 'utf-8');
+      } else if (scheme === 'project') {
+        const manifest = this.currentProjectPath ? await readManifest(this.currentProjectPath) : undefined;
+        if (!manifest) {
+          throw new Error(`No current project with a ${MANIFEST_FILENAME} manifest`);
+        }
+
+        if (resourcePath === 'manifest') {
+          text = JSON.stringify(manifest, null, 2);
+          mimeType = 'application/json';
+        } else {
+          // Only files recorded in the manifest can be read
+          const file = resourcePath
+            .replace(/^files\//, '')
+            .split('/')
+            .join(path.sep);
+          if (!resourcePath.startsWith('files/') || !(file in manifest.files)) {
+            throw new Error(`Unknown resource: ${uri}`);
+          }
+
+          // A recorded file may have been replaced by a symlink, so check where it really is before reading it
+          const projectRoot = await resolveRealPath(this.currentProjectPath!);
+          const filePath = await resolveRealPath(path.join(projectRoot, file));
+          if (!isPathInside(projectRoot, filePath)) {
+            throw new Error(`Access denied: ${uri} resolves to ${filePath}, outside the current project`);
+          }
+          text = await fs.readFile(filePath, 'utf-8');
+        }
+      } else if (scheme === 'log' && resourcePath === path.basename(logTransportFilename)) {
+        const log = await fs.readFile(logTransportFilename, 'utf-8').catch(() => '');
+        text = log.trimEnd().split('\n').slice(-LOG_RESOURCE_TAIL_LINES).join('\n');
+      } else {
+        throw new Error(`Unknown resource: ${uri}`);
+      }
+
+      return {
+        contents: [{ uri, mimeType, text }],
+      };
+    });
+  }
+
+  /**
+   * Points project:// resources at the project a tool just worked on
+   */
+  private async setCurrentProject(projectPath: string) {
+    this.currentProjectPath = path.resolve(projectPath);
+    if (!this.server.transport) {
+      return;
+    }
+    await this.server.sendResourceListChanged().catch((error) => {
+      logger.warn(`Could not send resource list changed notification: ${error}`);
+    });
+  }
+
+  /**
+   * The built-in and plugin tools, with the JSON schema of their arguments
+   */
+  listTools(): ToolDefinition[] {
+    return [
+      {
+        name: 'scaffold_project',
+        description: 'Create a new Next.js project with specified configuration',
+        inputSchema: z.toJSONSchema(this.toolInputSchemas.scaffold_project),
+      },
+      {
+        name: 'create_full_project',
+        description:
+          'Create a Next.js project and run every setup step (shadcn, database, auth, components, Docker, README, validation) in dependency order, returning a per-step report',
+        inputSchema: z.toJSONSchema(this.toolInputSchemas.create_full_project),
+      },
+      {
+        name: 'rollback_last_operation',
+        description:
+          'Undo the file changes made by the most recent tool run on a project. Changes made by shell commands (create-next-app, shadcn, prisma, installs) are not journaled.',
+        inputSchema: z.toJSONSchema(this.toolInputSchemas.rollback_last_operation),
+      },
+      {
+        name: 'detect_project_config',
+        description:
+          'Inspect an existing Next.js project (dependencies, lockfiles, Prisma/Drizzle/shadcn/auth files) and infer a best-guess config with a confidence score per field',
+        inputSchema: z.toJSONSchema(this.toolInputSchemas.detect_project_config),
+      },
+      {
+        name: 'check_config',
+        description:
+          'Check a project configuration without changing anything. Reports incompatible combinations, such as mongoose without mongodb or better-auth without a database, with suggested fixes',
+        inputSchema: z.toJSONSchema(this.toolInputSchemas.check_config),
+      },
+      {
+        name: 'list_presets',
+        description: 'List the built-in presets and the presets saved in ~/.next-mcp/presets, with their architecture',
+        inputSchema: z.toJSONSchema(this.toolInputSchemas.list_presets),
+      },
+      {
+        name: 'save_preset',
+        description:
+          'Save the architecture of a config, or of an existing project, as a named preset that later configs can reference with "preset"',
+        inputSchema: z.toJSONSchema(this.toolInputSchemas.save_preset),
+      },
+      {
+        name: 'delete_preset',
+        description: 'Delete a preset saved in ~/.next-mcp/presets',
+        inputSchema: z.toJSONSchema(this.toolInputSchemas.delete_preset),
+      },
+      {
+        name: 'generate_dockerfile',
+        description: 'Generate Dockerfile and docker-compose.yml',
+        inputSchema: z.toJSONSchema(this.toolInputSchemas.generate_dockerfile),
+      },
+      {
+        name: 'setup_shadcn',
+        description: 'Initialize shadcn/ui with defaults and install all components, or only the listed ones',
+        inputSchema: z.toJSONSchema(this.toolInputSchemas.setup_shadcn),
+      },
+      {
+        name: 'generate_base_components',
+        description: 'Generate base React components and layouts',
+        inputSchema: z.toJSONSchema(this.toolInputSchemas.generate_base_components),
+      },
+      {
+        name: 'setup_database',
+        description: 'Generate database configuration and migrations',
+        inputSchema: z.toJSONSchema(this.toolInputSchemas.setup_database),
+      },
+      {
+        name: 'setup_authentication',
+        description: 'Configure authentication with email and password sign-in and optional OAuth providers',
+        inputSchema: z.toJSONSchema(this.toolInputSchemas.setup_authentication),
+      },
+      {
+        name: 'setup_seed',
+        description:
+          "Generate a seed script for the project's ORM or database driver, with a db:seed script and an optional demo user",
+        inputSchema: z.toJSONSchema(this.toolInputSchemas.setup_seed),
+      },
+      {
+        name: 'generate_model',
+        description:
+          "Add a model with fields, relations and indexes to the project's Prisma schema, Drizzle schema or Mongoose models, and regenerate the Prisma client",
+        inputSchema: z.toJSONSchema(this.toolInputSchemas.generate_model),
+      },
+      {
+        name: 'generate_crud',
+        description:
+          'Generate a CRUD resource for a model: data access in src/lib/db, Zod validation, route handlers under src/app/api, server actions, and list, detail, create and edit pages',
+        inputSchema: z.toJSONSchema(this.toolInputSchemas.generate_crud),
+      },
+      {
+        name: 'validate_project',
+        description: 'Run validation checks on the generated project',
+        inputSchema: z.toJSONSchema(this.toolInputSchemas.validate_project),
+      },
+      {
+        name: 'generate_readme',
+        description: 'Generate comprehensive README.md',
+        inputSchema: z.toJSONSchema(this.toolInputSchemas.generate_readme),
+      },
+      ...[...this.pluginTools.values()].map(({ tool, inputSchema }) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: z.toJSONSchema(inputSchema),
+      })),
+    ];
+  }
+
+  private setupToolHandlers() {
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: this.listTools().map((tool) => ({ ...tool, outputSchema: outputSchemaJson })),
+    }));
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name, arguments: args } = request.params;
+      const progressToken = request.params._meta?.progressToken;
+
+      const onProgress: ProgressReporter | undefined =
+        progressToken === undefined
+          ? undefined
+          : async (progress, message, total) => {
+              await extra
+                .sendNotification({
+                  method: 'notifications/progress',
+                  params: { progressToken, progress, total, message },
+                })
+                .catch((error) => {
+                  logger.warn(`Could not send progress notification: ${error}`);
+                });
+            };
+
+      return this.runTool(name, args, { onProgress, signal: extra.signal });
+    });
+  }
+
+  /**
+   * Validates a tool's arguments and runs it, the way an MCP tools/call request does. Failures are returned
+   * as an error result rather than thrown.
+   */
+  async runTool(
+    name: string,
+    args: Record<string, unknown> | undefined,
+    options: { onProgress?: ProgressReporter; signal?: AbortSignal } = {}
+  ): Promise<ToolResult> {
+    if (!args) {
+      return this.errorResult(name, `No arguments provided for tool: ${name}`);
+    }
+    const inputSchema =
+      name in this.toolInputSchemas ? this.toolInputSchemas[name as ToolName] : this.pluginTools.get(name)?.inputSchema;
+    if (!inputSchema) {
+      return this.errorResult(name, `Unknown tool: ${name}`);
+    }
+
+    // The preset goes underneath the config before the arguments are checked, so it can supply required choices
+    let resolvedArgs = args;
+    if (typeof args.config === 'object' && args.config !== null) {
+      try {
+        const config = await parseProjectConfig(
+          args.config,
+          name === 'check_config' ? this.fieldsSchema : this.configSchema,
+          { preset: PROJECT_CREATING_TOOLS.includes(name) ? 'default' : 'named' }
+        );
+        resolvedArgs = { ...args, config };
+      } catch (error) {
+        const errorMessage =
+          error instanceof z.ZodError
+            ? formatValidationError(
+                new z.ZodError(error.issues.map((issue) => ({ ...issue, path: ['config', ...issue.path] })))
+              )
+            : `- config.preset: ${error instanceof Error ? error.message : String(error)}`;
+        return this.errorResult(name, `Invalid arguments for ${name}:\n${errorMessage}`, args.dryRun === true);
+      }
+    }
+
+    const parsedArgs = inputSchema.safeParse(resolvedArgs);
+    if (!parsedArgs.success) {
+      return this.errorResult(
+        name,
+        `Invalid arguments for ${name}:\n${formatValidationError(parsedArgs.error)}`,
+        args.dryRun === true
+      );
+    }
+    const input: Record<string, unknown> = parsedArgs.data;
+
+    try {
+      const allowedRoots = await this.getAllowedRoots();
+      for (const key of ['projectPath', 'targetPath']) {
+        if (typeof input[key] === 'string') {
+          await assertPathAllowed(input[key], allowedRoots);
+        }
+      }
+
+      const ctx = new ToolRunContext({
+        dryRun: input.dryRun === true,
+        onProgress: options.onProgress,
+        signal: options.signal,
+        allowedRoots,
+        templates: this.templates,
+        plugins: this.plugins,
+      });
+
+      // Rolling back and detection only need the project path, not a config
+      if (name === 'rollback_last_operation' || name === 'detect_project_config') {
+        const projectPath = input.projectPath as string;
+        const result =
+          name === 'rollback_last_operation'
+            ? await rollbackLastOperation(ctx, projectPath)
+            : await detectProjectConfig(ctx, projectPath, input.writeManifest === true);
+        await this.setCurrentProject(projectPath);
+        return this.withStructuredContent(name, ctx, result);
+      }
+
+      // Checking a config touches no project, so it skips the manifest and rollback journal
+      if (name === 'check_config') {
+        return this.withStructuredContent(name, ctx, checkConfig(input.config as ProjectConfig, this.ormDatabases));
+      }
+
+      // Presets live in the server's own directory, outside any project
+      if (name === 'list_presets') {
+        return this.withStructuredContent(name, ctx, await listPresets());
+      }
+      if (name === 'save_preset') {
+        const config = await parseProjectConfig(
+          input.config ?? (await readManifestConfig(input.projectPath)),
+          this.configSchema
+        );
+        const result = await savePreset(ctx, input.name as string, input.description as string | undefined, config);
+        return this.withStructuredContent(name, ctx, result);
+      }
+      if (name === 'delete_preset') {
+        return this.withStructuredContent(name, ctx, await deletePreset(input.name as string));
+      }
+
+      const rawConfig = input.config ?? (await readManifestConfig(input.projectPath));
+      const validatedConfig = await parseProjectConfig(rawConfig, this.configSchema);
+      const projectPath =
+        typeof input.projectPath === 'string'
+          ? input.projectPath
+          : path.join(input.targetPath as string, validatedConfig.name!);
+
+      const { result, rolledBack } = await runProjectTool(ctx, name, validatedConfig, projectPath, () =>
+        this.callTool(ctx, name, validatedConfig, input)
+      );
+
+      if (ctx.dryRun) {
+        return this.withStructuredContent(name, ctx, this.formatDryRunResult(name, ctx, result), result);
+      }
+
+      await this.setCurrentProject(projectPath);
+      return this.withStructuredContent(name, ctx, result, result, rolledBack);
+    } catch (error) {
+      const errorMessage =
+        error instanceof z.ZodError
+          ? `Invalid config:\n${formatValidationError(error)}`
+          : error instanceof Error
+            ? error.message
+            : String(error);
+      return this.errorResult(name, `Error executing ${name}: ${errorMessage}`, input.dryRun === true);
+    }
+  }
+
+  /**
+   * Adds the structured summary declared by outputSchema, marking failed runs with isError.
+   * @param result The result returned to the client
+   * @param source The handler result the status is read from, when it differs from result (dry runs)
+   * @param rolledBack Whether the run's file changes were undone, so none of them remain
+   */
+  private withStructuredContent(
+    name: string,
+    ctx: ToolRunContext,
+    result: ToolResult,
+    source: ToolResult = result,
+    rolledBack = false
+  ): ToolResult {
+    const structuredContent = toToolOutput(name, ctx, source, rolledBack);
+    return { ...result, structuredContent, isError: source.status === 'failed' };
+  }
+
+  private errorResult(name: string, message: string, dryRun = false): ToolResult {
+    const structuredContent: ToolOutput = {
+      tool: name,
+      status: 'failed',
+      dryRun,
+      filesCreated: [],
+      filesModified: [],
+      commandsRun: [],
+      warnings: [],
+      nextSteps: [],
+      error: message,
+    };
+    return { status: 'failed', content: [{ type: 'text', text: message }], structuredContent, isError: true };
+  }
+
+  private async callTool(
+    ctx: ToolRunContext,
+    name: string,
+    validatedConfig: ProjectConfig,
+    args: Record<string, unknown>
+  ): Promise<ToolResult> {
+    switch (name) {
+      case 'scaffold_project':
+        return await scaffoldProject(ctx, validatedConfig, args.targetPath as string);
+      case 'create_full_project':
+        return await createFullProject(
+          ctx,
+          validatedConfig,
+          args.targetPath as string,
+          args.resumeFrom as PipelineStepName | undefined
+        );
+      case 'generate_base_components':
+        return await generateBaseComponents(ctx, validatedConfig, args.projectPath as string);
+      case 'generate_dockerfile': {
+        const { projectPath, baseImage } = args as ToolInput<'generate_dockerfile'>;
+        return await generateDockerfile(ctx, validatedConfig, projectPath, baseImage);
+      }
+      case 'setup_shadcn': {
+        const { projectPath, components } = args as ToolInput<'setup_shadcn'>;
+        return await setupShadcn(ctx, validatedConfig, projectPath, components);
+      }
+      case 'setup_database':
+        return await setupDatabase(ctx, validatedConfig, args.projectPath as string);
+      case 'setup_authentication': {
+        const { projectPath, providers } = args as ToolInput<'setup_authentication'>;
+        return await setupAuthentication(ctx, validatedConfig, projectPath, providers);
+      }
+      case 'setup_seed': {
+        const { projectPath, demoUser } = args as ToolInput<'setup_seed'>;
+        return await setupSeed(ctx, validatedConfig, projectPath, demoUser);
+      }
+      case 'generate_model': {
+        const { projectPath, model } = args as ToolInput<'generate_model'>;
+        return await generateModel(ctx, validatedConfig, projectPath, model);
+      }
+      case 'generate_crud': {
+        const { projectPath, model } = args as ToolInput<'generate_crud'>;
+        return await generateCrud(ctx, validatedConfig, projectPath, model);
+      }
+      case 'validate_project':
+        return await validateProject(ctx, validatedConfig, args.projectPath as string);
+      case 'generate_readme':
+        return await generateReadme(ctx, validatedConfig, args.projectPath as string);
+      default: {
+        const pluginTool = this.pluginTools.get(name);
+        if (!pluginTool) {
+          throw new Error(`Unknown tool: ${name}`);
+        }
+        return await runPluginTool(ctx, pluginTool.tool, validatedConfig, args);
+      }
+    }
+  }
+
+  /**
+   * Replaces a handler's message with the recorded plan when running in dry-run mode
+   */
+  private formatDryRunResult(name: string, ctx: ToolRunContext, result: ToolResult): ToolResult {
+    const { commands, directories, filesCreated, filesModified, envChanges, packageJsonChanges } = ctx.plan;
+    const sections: string[] = [];
+    const list = (items: string[]) => (items.length > 0 ? items.map((item) => `- ${item}`).join('\n') : '- (none)');
+
+    sections.push(`[Commands]:\n${list(commands.map(({ command, cwd }) => `${command} (in ${cwd})`))}`);
+    sections.push(`[Directories to create]:\n${list(directories)}`);
+    sections.push(`[Files to create]:\n${list(filesCreated)}`);
+    sections.push(`[Files to overwrite]:\n${list(filesModified)}`);
+    sections.push(
+      `[.env changes]:\n${list(Object.entries(envChanges).map(([file, keys]) => `${file}: ${keys.join(', ')}`))}`
+    );
+    sections.push(`[package.json changes]:\n${list(packageJsonChanges)}`);
+
+    const failed = result.status === 'failed';
+    const header = failed
+      ? `❌ Dry run of ${name} stopped early - no changes were made`
+      : `📝 Dry run of ${name} - no changes were made`;
+    const failure = failed ? `\n\n[Error]:\n${result.content.map((c) => c.text).join('\n')}` : '';
+
+    return {
+      status: result.status,
+      content: [
+        {
+          type: 'text',
+          text: `${header}\n\n${sections.join('\n\n')}${failure}`,
+        },
+      ],
+    };
+  }
+
+  async connect(transport: Transport) {
+    await this.server.connect(transport);
+  }
+
+  async run() {
+    const transport = new StdioServerTransport();
+    await this.connect(transport);
+    logger.info('Next.js Scaffolding MCP server running on stdio');
+  }
+}
@@ -0,0 +1,57 @@
+import path from 'node:path';
+
+import { transform } from 'sucrase';
+
+import type { ProjectConfig } from './config.js';
+import { ToolRunContext } from './context.js';
+
+/**
+ * Maps a generated TypeScript file to its JavaScript equivalent: .tsx becomes .jsx and .ts becomes .js.
+ * next.config.ts becomes next.config.mjs, since Next.js loads a next.config.js as CommonJS.
+ */
+export function toJavaScriptPath(filePath: string): string {
+  if (path.basename(filePath) === 'next.config.ts') {
+    return filePath.replace(/\.ts$/, '.mjs');
+  }
+  return filePath.replace(/\.tsx$/, '.jsx').replace(/\.ts$/, '.js');
+}
+
+/**
+ * Removes type annotations, interfaces and type-only imports while keeping the layout of the source
+ */
+function stripTypes(source: string, filePath: string): string {
+  const { code } = transform(source, {
+    transforms: filePath.endsWith('.tsx') ? ['typescript', 'jsx'] : ['typescript'],
+    jsxRuntime: 'preserve',
+    disableESTransforms: true,
+    filePath,
+  });
+
+  return (
+    code
+      // Removed type-only specifiers leave a dangling comma behind, e.g. import { NextResponse, } from
+      .replace(/^(import \{[^}]*?),\s*\}/gm, '$1 }')
+      // Removed declarations leave their lines behind as blank lines, some with the indentation still on them
+      .replace(/^[ \t]+$/gm, '')
+      .replace(/\n{3,}/g, '\n\n')
+  );
+}
+
+export function getSourcePath(ctx: ToolRunContext, config: ProjectConfig, filePath: string): string {
+  if (config.architecture.typescript) {
+    return filePath;
+  }
+
+  const javaScriptPath = toJavaScriptPath(filePath);
+  const plainJsPath = javaScriptPath.replace(/\.jsx$/, '.js');
+  return javaScriptPath !== plainJsPath && ctx.exists(plainJsPath) ? plainJsPath : javaScriptPath;
+}
+
+/**
+ * Writes a generated file. TypeScript sources become their type-stripped JavaScript equivalent when TypeScript is disabled.
+ */
+export async function writeSourceFile(ctx: ToolRunContext, config: ProjectConfig, filePath: string, content: string) {
+  const sourcePath = getSourcePath(ctx, config, filePath);
+  await ctx.writeFile(sourcePath, sourcePath === filePath ? content : stripTypes(content, filePath));
+  return sourcePath;
+}
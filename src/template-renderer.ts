@@ -0,0 +1,68 @@
+import { existsSync, promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import { Eta } from 'eta';
+
+import { DEFAULT_TEMPLATE_OVERRIDES_DIR, TEMPLATES_DIR } from './constants.js';
+import { isPathInside } from './paths.js';
+
+/**
+ * Renders the templates in TEMPLATES_DIR with Eta (https://eta.js.org). Templates get the project config as `it`,
+ * plus any tool-specific data, and can include each other by relative path: <%~ include('docker/services/mysql.yml', it) %>.
+ * A template in the overrides directory replaces the built-in one, including when it is included as a partial.
+ * Plugin template directories come between the two, so plugin templates can be overridden too.
+ */
+export class TemplateRenderer {
+  private readonly eta = new Eta({ autoEscape: false, autoTrim: false, cache: false, cacheFilepaths: false });
+
+  constructor(
+    readonly overridesDir: string = DEFAULT_TEMPLATE_OVERRIDES_DIR,
+    private readonly pluginDirs: string[] = []
+  ) {
+    this.eta.resolvePath = (name: string) => {
+      const templatePath = this.resolve(name);
+      if (!templatePath) {
+        throw new Error(`Unknown template: ${name}`);
+      }
+      return templatePath;
+    };
+  }
+
+  /**
+   * Path of the file a template name refers to, preferring the overrides directory, then plugin directories
+   */
+  resolve(name: string): string | undefined {
+    for (const dir of [this.overridesDir, ...this.pluginDirs, TEMPLATES_DIR]) {
+      if (!dir) continue;
+      const templatePath = path.resolve(dir, name);
+      if (!isPathInside(dir, templatePath)) return undefined;
+      if (existsSync(templatePath)) return templatePath;
+    }
+    return undefined;
+  }
+
+  /**
+   * Names of every template, with whether the overrides directory replaces it
+   */
+  async list(): Promise<Array<{ name: string; overridden: boolean }>> {
+    const listDir = async (dir?: string) => {
+      if (!dir || !existsSync(dir)) return [];
+      return (await fs.readdir(dir, { recursive: true, withFileTypes: true }))
+        .filter((dirent) => dirent.isFile())
+        .map((dirent) => path.relative(dir, path.join(dirent.parentPath, dirent.name)).split(path.sep).join('/'));
+    };
+
+    const overrides = new Set(await listDir(this.overridesDir));
+    const builtIns = (await Promise.all([...this.pluginDirs, TEMPLATES_DIR].map((dir) => listDir(dir)))).flat();
+    return [...new Set([...builtIns, ...overrides])].sort().map((name) => ({ name, overridden: overrides.has(name) }));
+  }
+
+  async render(name: string, data: object): Promise<string> {
+    try {
+      return await this.eta.renderAsync(name, data);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not render template ${name}: ${errorMessage}`);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+import { ToolRunContext } from './context.js';
+
+const ToolOutputSchema = z.object({
+  tool: z.string().describe('Name of the tool that ran'),
+  status: z
+    .enum(['success', 'failed', 'skipped'])
+    .describe('success: changes applied; failed: nothing kept, see error; skipped: nothing needed doing'),
+  dryRun: z.boolean().describe('True when the result is a plan and nothing was changed'),
+  filesCreated: z.array(z.string()).describe('Absolute paths of files created (or that would be, in a dry run)'),
+  filesModified: z.array(z.string()).describe('Absolute paths of existing files changed'),
+  commandsRun: z.array(z.string()).describe('Shell commands run, in order'),
+  warnings: z.array(z.string()).describe('Problems that did not stop the tool'),
+  nextSteps: z.array(z.string()).describe('What the user should do next'),
+  error: z.string().optional().describe('Why the tool failed'),
+  steps: z
+    .record(z.string(), z.enum(['success', 'failed', 'skipped', 'blocked']))
+    .optional()
+    .describe('Status of each pipeline step (create_full_project only)'),
+});
+
+export type ToolOutput = z.infer<typeof ToolOutputSchema>;
+
+export type ToolStatus = 'success' | 'failed' | 'skipped' | 'blocked';
+
+export const outputSchemaJson = z.toJSONSchema(ToolOutputSchema);
+
+export type ToolResult = {
+  // Outcome the handler reports. isError and rollback follow it, never the wording of the message.
+  status: ToolStatus;
+  content: Array<{ type: string; text: string }>;
+  isError?: boolean;
+  structuredContent?: Partial<ToolOutput>;
+};
+
+/**
+ * Builds the structured summary declared by outputSchema from a run's plan and result
+ * @param source The handler result the status is read from
+ * @param rolledBack Whether the run's file changes were undone, so none of them remain
+ */
+export function toToolOutput(name: string, ctx: ToolRunContext, source: ToolResult, rolledBack = false): ToolOutput {
+  const { status } = source;
+  const { filesCreated, filesModified, commands, warnings, nextSteps } = ctx.plan;
+  const output: ToolOutput = {
+    tool: name,
+    status: status === 'blocked' ? 'failed' : status,
+    dryRun: ctx.dryRun,
+    filesCreated: rolledBack ? [] : filesCreated,
+    filesModified: rolledBack ? [] : filesModified,
+    commandsRun: commands.map(({ command }) => command),
+    warnings,
+    nextSteps,
+    ...source.structuredContent,
+  };
+  if (status === 'failed' && !output.error) {
+    output.error = source.content.map((c) => c.text).join('\n');
+  }
+  return output;
+}
@@ -0,0 +1,138 @@
+import { z } from 'zod';
+
+import { ProjectConfigFieldsSchema, ProjectConfigSchema } from './config.js';
+import { DEFAULT_DOCKER_BASE_IMAGE, MANIFEST_FILENAME } from './constants.js';
+import { presetNameSchema } from './presets.js';
+import { AUTH_PROVIDERS } from './tools/auth.js';
+import { ModelDefinitionSchema } from './tools/model.js';
+import { PIPELINE_STEP_NAMES } from './tools/pipeline.js';
+
+const dryRunSchema = z
+  .boolean()
+  .optional()
+  .default(false)
+  .describe(
+    'Plan only: return the files, .env keys, package.json edits and commands the tool would change or run, without touching the project'
+  );
+
+// Input shared by every tool that works on an existing project, including plugin tools
+export function createProjectToolInputSchema(configSchema: typeof ProjectConfigSchema) {
+  return z.object({
+    config: configSchema
+      .optional()
+      .describe(
+        `Project configuration. If omitted, the config recorded in the project's ${MANIFEST_FILENAME} manifest is used.`
+      ),
+    projectPath: z.string().describe('Path to the project directory'),
+    dryRun: dryRunSchema,
+  });
+}
+
+/**
+ * Arguments accepted by each built-in tool, validated before the tool runs.
+ * The schemas are built from the config schemas so architecture values added by plugins are accepted.
+ */
+export function createToolInputSchemas(
+  fieldsSchema: typeof ProjectConfigFieldsSchema,
+  configSchema: typeof ProjectConfigSchema
+) {
+  const projectToolInputSchema = createProjectToolInputSchema(configSchema);
+
+  return {
+    scaffold_project: z.object({
+      config: configSchema,
+      targetPath: z.string().describe('Target directory path, usually the current working directory'),
+      dryRun: dryRunSchema,
+    }),
+    create_full_project: z.object({
+      config: configSchema,
+      targetPath: z.string().describe('Target directory path, usually the current working directory'),
+      resumeFrom: z
+        .enum(PIPELINE_STEP_NAMES)
+        .optional()
+        .describe(
+          'Resume an earlier run from this step (usually the first step that failed). Requires the same config.name so the existing project is found, and every earlier step recorded as done in its manifest.'
+        ),
+      dryRun: dryRunSchema,
+    }),
+    rollback_last_operation: z.object({
+      projectPath: z.string().describe('Path to the project directory'),
+    }),
+    detect_project_config: z.object({
+      projectPath: z.string().describe('Path to the project directory'),
+      writeManifest: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe(`Save the detected config to ${MANIFEST_FILENAME} so later tools can be called without a config`),
+    }),
+    check_config: z.object({
+      config: fieldsSchema.describe('Project configuration to check'),
+    }),
+    list_presets: z.object({}),
+    save_preset: z.object({
+      name: presetNameSchema,
+      description: z.string().optional().describe('What the preset is for, shown by list_presets'),
+      config: configSchema.optional().describe('Config whose architecture is saved'),
+      projectPath: z
+        .string()
+        .optional()
+        .describe(`Project whose ${MANIFEST_FILENAME} config is saved when config is omitted`),
+    }),
+    delete_preset: z.object({
+      name: presetNameSchema,
+    }),
+    generate_dockerfile: projectToolInputSchema.extend({
+      baseImage: z
+        .string()
+        .regex(/^[a-z0-9][a-z0-9._/-]*(:[\w.-]+)?(@sha256:[a-f0-9]{64})?$/, 'Must be a Docker image reference')
+        .optional()
+        .default(DEFAULT_DOCKER_BASE_IMAGE)
+        .describe('Node.js base image for the Dockerfile, e.g. node:24-alpine or node:24-bookworm-slim'),
+    }),
+    setup_shadcn: projectToolInputSchema.extend({
+      components: z
+        .array(z.string().regex(/^[a-z0-9-]+$/, 'Must be a shadcn/ui component name such as button or data-table'))
+        .min(1)
+        .optional()
+        .describe('shadcn/ui components to install. Every component is installed when omitted.'),
+    }),
+    generate_base_components: projectToolInputSchema,
+    setup_database: projectToolInputSchema,
+    setup_authentication: projectToolInputSchema.extend({
+      providers: z
+        .array(z.enum(AUTH_PROVIDERS))
+        .optional()
+        .default([])
+        .describe('OAuth providers to enable alongside email and password sign-in'),
+    }),
+    setup_seed: projectToolInputSchema.extend({
+      demoUser: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe('Also create a demo user (demo@example.com) with better-auth, so sign-in can be tried after seeding'),
+    }),
+    generate_model: projectToolInputSchema.extend({
+      model: ModelDefinitionSchema.describe('The model to add, with its fields, relations and indexes'),
+    }),
+    generate_crud: projectToolInputSchema.extend({
+      model: ModelDefinitionSchema.describe('The model to build the resource on, as passed to generate_model'),
+    }),
+    validate_project: projectToolInputSchema,
+    generate_readme: projectToolInputSchema,
+  };
+}
+
+export const TOOL_INPUT_SCHEMAS = createToolInputSchemas(ProjectConfigFieldsSchema, ProjectConfigSchema);
+
+export type ToolInputSchemas = typeof TOOL_INPUT_SCHEMAS;
+
+export type ToolName = keyof ToolInputSchemas;
+export type ToolInput<T extends ToolName> = z.infer<ToolInputSchemas[T]>;
+
+// Tools whose config describes a project that does not exist yet, so the user's "default" preset applies to it
+export const PROJECT_CREATING_TOOLS: readonly string[] = [
+  'scaffold_project',
+  'create_full_project',
+] satisfies ToolName[];
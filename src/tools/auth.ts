@@ -0,0 +1,337 @@
+import { randomBytes } from 'node:crypto';
+import path from 'node:path';
+
+import type { ProjectConfig } from '../config.js';
+import { ToolRunContext } from '../context.js';
+import { execCommand, getPackageRunner } from '../exec.js';
+import { logger } from '../logger.js';
+import { getSourcePath, toJavaScriptPath, writeSourceFile } from '../source-files.js';
+import type { ToolResult } from '../tool-result.js';
+import { getDrizzleProvider, getPrismaProvider } from './database.js';
+
+export const AUTH_PROVIDERS = ['github', 'google', 'discord', 'apple', 'microsoft', 'gitlab'] as const;
+
+export type AuthProvider = (typeof AUTH_PROVIDERS)[number];
+
+// Provider name the better-auth Prisma or Drizzle adapter expects for the database
+function getAdapterProvider(config: ProjectConfig): string | undefined {
+  const { database, orm } = config.architecture;
+  if (orm === 'prisma') {
+    return getPrismaProvider(database);
+  }
+  if (orm === 'drizzle') {
+    return getDrizzleProvider(database);
+  }
+  return undefined;
+}
+
+function getAuthConfigPath(config: ProjectConfig): string {
+  return config.architecture.typescript ? 'src/lib/auth.ts' : toJavaScriptPath('src/lib/auth.ts');
+}
+
+function getAuthSchemaCommand(config: ProjectConfig): string {
+  return `npx @better-auth/cli@latest generate -y --config ${getAuthConfigPath(config)}`;
+}
+
+function getAuthMigrationCommand(config: ProjectConfig): string {
+  const { orm, packageManager } = config.architecture;
+  const packageRunner = getPackageRunner(packageManager);
+
+  if (orm === 'prisma') {
+    return `${packageRunner} prisma migrate dev -n setup_authentication`;
+  }
+
+  if (orm === 'drizzle') {
+    return `${packageRunner} drizzle-kit generate && ${packageRunner} drizzle-kit migrate`;
+  }
+
+  return `npx @better-auth/cli@latest migrate -y --config ${getAuthConfigPath(config)}`;
+}
+
+export async function setupAuthentication(
+  ctx: ToolRunContext,
+  config: ProjectConfig,
+  projectPath: string,
+  providers: AuthProvider[] = []
+): Promise<ToolResult> {
+  if (config.architecture.auth === 'none') {
+    return {
+      status: 'skipped',
+      content: [
+        {
+          type: 'text',
+          text: 'No authentication configuration needed',
+        },
+      ],
+    };
+  }
+
+  try {
+    // Step 1: Create directory structure
+    const authDirs = [
+      'src/lib',
+      'src/providers',
+      'src/app/api/auth/[...all]',
+      'src/app/auth/[path]',
+      'src/app/account/[path]',
+      'src/components/auth',
+    ];
+
+    for (const dir of authDirs) {
+      await ctx.mkdir(path.join(projectPath, dir));
+    }
+
+    // Update .env files (smart merge with existing DATABASE_URL)
+    const envFiles = ['.env', '.env.example', '.env.local'];
+    // Step 2: Generate environment variables
+    const providerEnvVars =
+      providers.length > 0
+        ? `# OAuth Providers\n${providers.map((provider) => `${provider.toUpperCase()}_CLIENT_ID=\n${provider.toUpperCase()}_CLIENT_SECRET=\n`).join('')}`
+        : `# OAuth Providers (optional)
+# GITHUB_CLIENT_ID=
+# GITHUB_CLIENT_SECRET=
+# GOOGLE_CLIENT_ID=
+# GOOGLE_CLIENT_SECRET=
+`;
+    for (const envFile of envFiles) {
+      const secret = randomBytes(32).toString('base64');
+      const authEnvVars = `
+# Better Auth Configuration
+BETTER_AUTH_SECRET="${secret}"
+BETTER_AUTH_URL=http://localhost:3000
+NEXT_PUBLIC_BETTER_AUTH_URL=http://localhost:3000
+
+${providerEnvVars}`;
+      const envPath = path.join(projectPath, envFile);
+      let envContent = await ctx.readFile(envPath).catch(() => '');
+
+      // Add auth vars if not present
+      if (!envContent.includes('BETTER_AUTH_SECRET')) {
+        envContent += authEnvVars;
+        await ctx.writeFile(envPath, envContent);
+      }
+    }
+
+    // Step 3: Generate auth configuration files
+    // The template connects better-auth to the project's ORM: Kysely projects pass their own instance, whose
+    // dialect names match better-auth's database types, and projects without an ORM open a direct connection
+    const authContent = await ctx.renderTemplate('auth/auth.ts.template', config, {
+      databaseProvider: getAdapterProvider(config),
+      providers,
+    });
+
+    // Paths of the generated files, relative to the project, in the project's language
+    const generatedFiles: Record<string, string> = {};
+    const writeAuthFile = async (destination: string, content: string) => {
+      const sourcePath = await writeSourceFile(ctx, config, path.join(projectPath, destination), content);
+      generatedFiles[destination] = path.relative(projectPath, sourcePath).split(path.sep).join('/');
+    };
+
+    await writeAuthFile('src/lib/auth.ts', authContent);
+
+    // Render auth-client.ts
+    const authClientTemplate = await ctx.renderTemplate('auth/auth-client.ts.template', config);
+    await writeAuthFile('src/lib/auth-client.ts', authClientTemplate);
+
+    // Step 4: Generate API route
+    const routeTemplate = await ctx.renderTemplate('auth/auth-route.ts.template', config);
+    await writeAuthFile('src/app/api/auth/[...all]/route.ts', routeTemplate);
+
+    // Step 5: Generate AuthUIProvider
+    const authProviderTemplate = await ctx.renderTemplate('auth/auth-ui-provider.tsx.template', config, {
+      providers,
+    });
+    await writeAuthFile('src/providers/auth-ui-provider.tsx', authProviderTemplate);
+
+    // Step 6: Generate dynamic auth pages & layout
+    // Step 7: Generate dynamic account pages
+    // Step 8: Generate UserButton component
+    const templateMappings = [
+      { template: 'auth/auth-page.tsx.template', destination: 'src/app/auth/[path]/page.tsx' },
+      { template: 'auth/account-page.tsx.template', destination: 'src/app/account/[path]/page.tsx' },
+      { template: 'auth/user-button.tsx.template', destination: 'src/components/auth/user-button.tsx' },
+      { template: 'auth/proxy.ts.template', destination: 'src/proxy.ts' },
+    ];
+
+    await Promise.all(
+      templateMappings.map(async ({ template, destination }) => {
+        const content = await ctx.renderTemplate(template, config);
+        await writeAuthFile(destination, content);
+      })
+    );
+
+    // Step 9: Update root layout to include AuthProvider
+    const layoutPath = getSourcePath(ctx, config, path.join(projectPath, 'src/app/layout.tsx'));
+    let layoutContent = await ctx.readFileForUpdate(layoutPath);
+
+    if (!layoutContent.includes('AuthProvider')) {
+      // Add import at the top
+      const importStatement = `import { AuthProvider } from "@/providers/auth-ui-provider";\n`;
+      layoutContent = layoutContent.replace(/^(import.*\n)*/, (match) => match + importStatement);
+
+      // Wrap {children} with <AuthProvider>{children}</AuthProvider>
+      layoutContent = layoutContent.replace(/\{children\}/, '<AuthProvider>{children}</AuthProvider>');
+      await ctx.writeFile(layoutPath, layoutContent);
+    }
+
+    // Step 10: Update globals.css with better-auth-ui import
+    const globalsCssPath = path.join(projectPath, 'src/app/globals.css');
+    let globalsCss = await ctx.readFileForUpdate(globalsCssPath);
+
+    if (!globalsCss.includes('@daveyplate/better-auth-ui/css')) {
+      globalsCss = `@import "@daveyplate/better-auth-ui/css";\n\n${globalsCss}`;
+      await ctx.writeFile(globalsCssPath, globalsCss);
+    }
+
+    // Step 11: Run schema generation and migration
+    const { database } = config.architecture;
+    let schemaGenerated = false;
+    let migrationRan = false;
+
+    // MongoDB doesn't need migrations (schema-less)
+    const shouldRunMigrations = database !== 'mongodb';
+
+    if (shouldRunMigrations && !config.architecture.skipInstall) {
+      // Generate auth schema
+      const schemaCmd = getAuthSchemaCommand(config);
+      const schemaResult = await execCommand(ctx, schemaCmd, projectPath, 'auth schema generation');
+      schemaGenerated = schemaResult.success;
+
+      // Run migrations if schema was generated successfully
+      if (schemaGenerated) {
+        const migrationCmd = getAuthMigrationCommand(config);
+        const migrationResult = await execCommand(ctx, migrationCmd, projectPath, 'auth migration');
+        migrationRan = migrationResult.success;
+      }
+    }
+
+    // Step 12: Generate success message with instructions
+    const devServerStep: [string, string] = [
+      'Start your development server',
+      `${config.architecture.packageManager} dev`,
+    ];
+    const signUpStep: [string] = ['Visit http://localhost:3000/auth/sign-up to create your first user'];
+    const migrationStep: [string, string] = ['Run database migrations', getAuthMigrationCommand(config)];
+    let headline = '';
+    let steps: Array<[string, string?]> = [devServerStep, signUpStep];
+    let note = '';
+
+    if (database === 'mongodb') {
+      // MongoDB doesn't need migrations
+      headline = '✅ MongoDB adapter configured - no migrations needed!';
+      note = 'ℹ️  Note: MongoDB is schema-less, so no migration commands are required.';
+    } else if (shouldRunMigrations) {
+      // For all databases that ran auto-migrations
+      if (schemaGenerated && migrationRan) {
+        headline = '✅ Database schema and migrations have been generated and applied automatically!';
+      } else if (schemaGenerated && !migrationRan) {
+        headline = '⚠️  Schema generated but migration failed. Please run manually:';
+        ctx.warn('The better-auth schema was generated but the migration failed');
+        steps = [migrationStep, devServerStep, signUpStep];
+      } else {
+        headline = '⚠️  Manual setup required. Please run these commands:';
+        ctx.warn('The better-auth schema could not be generated');
+        steps = [
+          ['Generate the database schema', getAuthSchemaCommand(config)],
+          migrationStep,
+          devServerStep,
+          signUpStep,
+        ];
+      }
+    }
+    // Otherwise fall back to the default steps (should not happen due to the MongoDB check above)
+
+    const providerSteps: Array<[string, string?]> = providers.map((provider) => [
+      `Create a ${provider} OAuth app with the callback URL http://localhost:3000/api/auth/callback/${provider}, then set ${provider.toUpperCase()}_CLIENT_ID and ${provider.toUpperCase()}_CLIENT_SECRET in .env`,
+    ]);
+    steps = [...providerSteps, ...steps];
+
+    ctx.addNextSteps(...steps.map(([label, command]) => (command ? `${label}: ${command}` : label)));
+    const nextSteps = [
+      ...(headline ? [headline, ''] : []),
+      '📋 Next Steps:',
+      '',
+      steps.map(([label, command], index) => `${index + 1}. ${label}${command ? `:\n   ${command}` : ''}`).join('\n\n'),
+      ...(note ? ['', note] : []),
+    ].join('\n');
+
+    const instructions = `✅ Better Auth + Better Auth UI has been configured successfully!
+
+${nextSteps}
+
+📚 Documentation:
+- Better Auth: https://www.better-auth.com/docs
+- Better Auth UI: https://better-auth-ui.com
+- Email & Password Auth: https://www.better-auth.com/docs/authentication/email-password
+
+🎨 Available Auth Routes:
+- /auth/sign-in - Sign in page
+- /auth/sign-up - Sign up page
+- /auth/forgot-password - Password reset
+- /auth/two-factor - 2FA setup
+- /account/profile - User profile settings
+- /account/security - Security settings
+- /account/settings - Account settings
+
+🔐 Features Enabled:
+- Email & Password Authentication with beautiful UI
+- Session Management
+- Account Settings Pages
+- User Profile Management
+- Pre-styled shadcn/ui components
+- Ready-to-use UserButton component
+
+📁 Generated Files:
+- ${generatedFiles['src/lib/auth.ts']} (server config)
+- ${generatedFiles['src/lib/auth-client.ts']} (client)
+- ${generatedFiles['src/providers/auth-ui-provider.tsx']} (UI provider)
+- ${generatedFiles['src/app/api/auth/[...all]/route.ts']} (API handler)
+- ${generatedFiles['src/app/auth/[path]/page.tsx']} (dynamic auth pages)
+- ${generatedFiles['src/app/account/[path]/page.tsx']} (account settings)
+- ${generatedFiles['src/components/auth/user-button.tsx']} (UserButton wrapper)
+- Updated ${path.relative(projectPath, layoutPath).split(path.sep).join('/')} (AuthProvider wrapper)
+- Updated src/app/globals.css (better-auth-ui styles)
+
+💡 Quick Start:
+Add the UserButton to your layout/navbar:
+
+import { UserButton } from "@/components/auth/user-button";
+
+export default function Header() {
+  return (
+    <header>
+      <nav>
+        {/* Your navigation */}
+        <UserButton />
+      </nav>
+    </header>
+  );
+}
+`;
+
+    logger.info('Authentication setup completed successfully');
+    logger.info(instructions);
+
+    return {
+      status: 'success',
+      content: [
+        {
+          type: 'text',
+          text: instructions,
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`Authentication setup failed: ${errorMessage}`);
+    return {
+      status: 'failed',
+      content: [
+        {
+          type: 'text',
+          text: `Failed to set up authentication: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { getArchitectureIssues, type OrmDatabases, type ProjectConfig } from '../config.js';
+import type { ToolResult } from '../tool-result.js';
+
+/**
+ * Reports architecture combinations the setup tools cannot generate
+ * @param ormDatabases Database support of each ORM, including ORMs added by plugins
+ */
+export function checkConfig(config: ProjectConfig, ormDatabases?: OrmDatabases): ToolResult {
+  const issues = getArchitectureIssues(config.architecture, ormDatabases);
+
+  if (issues.length > 0) {
+    return {
+      status: 'failed',
+      content: [
+        {
+          type: 'text',
+          text: `❌ Incompatible architecture:\n${issues.map((issue) => `- architecture.${issue.path.join('.')}: ${issue.message}`).join('\n')}`,
+        },
+      ],
+    };
+  }
+
+  return {
+    status: 'success',
+    content: [
+      {
+        type: 'text',
+        text: `✅ Config is valid\n\n[Config]:\n${JSON.stringify(config, null, 2)}`,
+      },
+    ],
+  };
+}
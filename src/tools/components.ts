@@ -0,0 +1,69 @@
+import path from 'node:path';
+
+import type { ProjectConfig } from '../config.js';
+import { ToolRunContext } from '../context.js';
+import { writeSourceFile } from '../source-files.js';
+import type { ToolResult } from '../tool-result.js';
+
+export async function generateBaseComponents(
+  ctx: ToolRunContext,
+  config: ProjectConfig,
+  projectPath: string
+): Promise<ToolResult> {
+  try {
+    // Note: If uiLibrary is 'shadcn', call the 'setup_shadcn' tool separately
+    // to initialize shadcn/ui and install all components
+
+    const useShadcn = config.architecture.uiLibrary === 'shadcn';
+
+    // Update the existing page.tsx with our custom content using Tailwind CSS
+    const pageTsx = await ctx.renderTemplate('home-page.tsx.template', config);
+
+    // Create a simple health check API route
+    const healthApiRoute = await ctx.renderTemplate('health-route.ts.template', config);
+
+    // Write the files
+    await ctx.mkdir(path.join(projectPath, 'src/app/api/health'));
+    await writeSourceFile(ctx, config, path.join(projectPath, 'src/app/page.tsx'), pageTsx);
+    await writeSourceFile(ctx, config, path.join(projectPath, 'src/app/api/health/route.ts'), healthApiRoute);
+
+    // Only create a reusable Button component with Tailwind CSS if not using shadcn
+    if (!useShadcn) {
+      const buttonComponent = await ctx.renderTemplate('button.tsx.template', config);
+      await writeSourceFile(ctx, config, path.join(projectPath, 'src/components/ui/button.tsx'), buttonComponent);
+    }
+
+    const components = ['- Enhanced home page with feature showcase', '- Added health check API route'];
+
+    if (useShadcn) {
+      components.push('- Using shadcn/ui Button component (call setup_shadcn tool to install)');
+    } else {
+      components.push('- Created reusable Button component with Tailwind CSS');
+    }
+
+    if (config.architecture.auth !== 'none') {
+      components.push('- Created authentication-related components (to be implemented based on chosen auth method)');
+    }
+
+    return {
+      status: 'success',
+      content: [
+        {
+          type: 'text',
+          text: `✅ Generated base components:\n${components.join('\n')}`,
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      status: 'failed',
+      content: [
+        {
+          type: 'text',
+          text: `❌ Failed to generate base components: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,353 @@
+import path from 'node:path';
+
+import type { ProjectConfig } from '../config.js';
+import { PACKAGE_VERSIONS } from '../constants.js';
+import { ToolRunContext } from '../context.js';
+import { getPackageRunnerDlx } from '../exec.js';
+import { logger } from '../logger.js';
+import { getSourcePath, writeSourceFile } from '../source-files.js';
+import type { ToolResult } from '../tool-result.js';
+import { formatDefault, getModelNames, type ModelDefinition } from './model.js';
+
+type InputKind = 'string' | 'text' | 'int' | 'float' | 'boolean' | 'datetime' | 'relation';
+
+// A value the forms edit and the Zod schema validates
+type ResourceInput = {
+  name: string;
+  label: string;
+  kind: InputKind;
+  optional: boolean;
+  default?: string | number | boolean;
+};
+
+// A value the detail page and the table show
+type ResourceColumn = Pick<ResourceInput, 'name' | 'label' | 'kind' | 'optional'>;
+
+// shadcn/ui components the generated form, table and pages import
+const SHADCN_COMPONENTS = ['button', 'checkbox', 'form', 'input', 'table', 'textarea'];
+
+const toLabel = (name: string) => {
+  const words = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words[0].toUpperCase() + words.slice(1);
+};
+
+/**
+ * The model's fields and relations as form inputs. Relations are edited as the id of the related record, stored
+ * in the foreign key column for SQL and under the relation's own name for Mongoose.
+ */
+function getInputs(ctx: ToolRunContext, model: ModelDefinition, orm: string): ResourceInput[] {
+  const inputs: ResourceInput[] = [];
+  for (const field of model.fields) {
+    if (field.type === 'json') {
+      ctx.warn(`${field.name} is a json field, so the generated validation and forms leave it out`);
+      continue;
+    }
+    inputs.push({
+      name: field.name,
+      label: toLabel(field.name),
+      kind: field.type,
+      optional: field.optional,
+      default: field.default,
+    });
+  }
+
+  for (const relation of model.relations) {
+    inputs.push({
+      name: orm === 'mongoose' ? relation.name : `${relation.name}Id`,
+      label: `${toLabel(relation.name)} ID`,
+      kind: 'relation',
+      optional: relation.optional,
+    });
+  }
+
+  return inputs;
+}
+
+const ZOD_TYPES: Record<InputKind, string> = {
+  string: 'z.string().trim().max(255)',
+  text: 'z.string().trim()',
+  relation: 'z.string().trim()',
+  int: 'z.coerce.number().int()',
+  float: 'z.coerce.number()',
+  boolean: 'z.boolean()',
+  datetime: 'z.coerce.date()',
+};
+
+/**
+ * Forms submit empty strings for blank inputs: optional values treat them as null so they can be cleared,
+ * and values with a default as missing so the database fills them in
+ */
+function getZodType(input: ResourceInput): string {
+  const type = ZOD_TYPES[input.kind];
+  if (input.optional) {
+    return input.kind === 'boolean' ? `${type}.nullish()` : `z.preprocess(emptyToNull, ${type}.nullish())`;
+  }
+  if (input.default !== undefined) {
+    return input.kind === 'boolean' ? `${type}.optional()` : `z.preprocess(emptyToUndefined, ${type}.optional())`;
+  }
+  if (input.kind === 'boolean') {
+    return type;
+  }
+  return ['string', 'text', 'relation'].includes(input.kind)
+    ? `${type}.min(1, 'Required')`
+    : `z.preprocess(emptyToUndefined, ${type})`;
+}
+
+// Attributes of the <input> for each kind, which the forms add after the element name
+const INPUT_ATTRIBUTES: Partial<Record<InputKind, string>> = {
+  int: ' type="number"',
+  float: ' type="number" step="any"',
+  datetime: ' type="datetime-local"',
+};
+
+// Initial form value, from the record being edited or the field's default
+function getFormDefault(input: ResourceInput, record: string): string {
+  const value = `${record}?.${input.name}`;
+  if (input.kind === 'datetime') {
+    return `toDateTimeLocal(${value})`;
+  }
+  const fallback =
+    input.default !== undefined ? formatDefault(input.default) : input.kind === 'boolean' ? 'false' : "''";
+  return `${value} ?? ${fallback}`;
+}
+
+// JSX expression showing a value of a record
+function getDisplayValue(column: ResourceColumn, record: string): string {
+  const value = `${record}.${column.name}`;
+  if (column.kind === 'boolean') {
+    return `${value} ? 'Yes' : 'No'`;
+  }
+  if (column.kind === 'datetime') {
+    return column.optional
+      ? `${value} ? new Date(${value}).toLocaleString() : '—'`
+      : `new Date(${value}).toLocaleString()`;
+  }
+  return column.optional ? `${value} ?? '—'` : value;
+}
+
+async function assertModelExists(
+  ctx: ToolRunContext,
+  config: ProjectConfig,
+  projectPath: string,
+  model: ModelDefinition
+) {
+  const { orm } = config.architecture;
+  const names = getModelNames(model.name);
+  let modelFile: string;
+  let found: boolean;
+
+  if (orm === 'prisma') {
+    modelFile = path.join(projectPath, 'prisma', 'schema.prisma');
+    const schema = await ctx.readFileForUpdate(modelFile).catch(() => '');
+    found = new RegExp(`^model ${model.name} \\{`, 'm').test(schema);
+  } else if (orm === 'drizzle') {
+    modelFile = getSourcePath(ctx, config, path.join(projectPath, 'src/lib/db/schema.ts'));
+    const schema = await ctx.readFileForUpdate(modelFile).catch(() => '');
+    found = new RegExp(`export const ${names.plural} =`).test(schema);
+  } else if (orm === 'mongoose') {
+    modelFile = getSourcePath(ctx, config, path.join(projectPath, 'src/lib/db/models', `${names.file}.ts`));
+    found = ctx.exists(modelFile);
+  } else {
+    throw new Error(`CRUD resources need an ORM (prisma, drizzle or mongoose), but the project uses orm: ${orm}`);
+  }
+
+  if (!found) {
+    throw new Error(
+      `Model ${model.name} not found in ${path.relative(projectPath, modelFile)}. Run generate_model with it first.`
+    );
+  }
+}
+
+/**
+ * The generated proxy.ts protects every route it does not list as public, so the resource is protected unless
+ * one of its public prefixes covers it
+ */
+async function checkRouteProtection(ctx: ToolRunContext, config: ProjectConfig, projectPath: string, route: string) {
+  const proxyPath = getSourcePath(ctx, config, path.join(projectPath, 'src/proxy.ts'));
+  const routes = [`/${route}`, `/api/${route}`];
+  if (!ctx.exists(proxyPath)) {
+    ctx.warn(`src/proxy.ts not found; run setup_authentication so it protects ${routes.join(' and ')}`);
+    return;
+  }
+
+  const proxy = await ctx.readFile(proxyPath);
+  const publicRoutes = /publicRoutes\s*=\s*\[([^\]]*)\]/.exec(proxy)?.[1].match(/['"][^'"]+['"]/g) ?? [];
+  for (const publicRoute of publicRoutes.map((value) => value.slice(1, -1))) {
+    const exposed = routes.filter((resourceRoute) => resourceRoute.startsWith(publicRoute));
+    if (exposed.length > 0) {
+      ctx.warn(
+        `publicRoutes in src/proxy.ts includes ${publicRoute}, so ${exposed.join(' and ')} can be used signed out`
+      );
+    }
+  }
+}
+
+export async function generateCrud(
+  ctx: ToolRunContext,
+  config: ProjectConfig,
+  projectPath: string,
+  model: ModelDefinition
+): Promise<ToolResult> {
+  const { orm, uiLibrary, auth, packageManager } = config.architecture;
+
+  // The data access templates query through a Prisma, Drizzle or Mongoose model, which Kysely projects do not have
+  if (orm === 'kysely') {
+    return {
+      status: 'failed',
+      content: [
+        {
+          type: 'text',
+          text: 'Failed to generate CRUD resource: generate_crud is not supported for kysely',
+        },
+      ],
+    };
+  }
+
+  try {
+    await assertModelExists(ctx, config, projectPath, model);
+
+    const names = getModelNames(model.name);
+    const useShadcn = uiLibrary === 'shadcn';
+    const inputs = getInputs(ctx, model, orm);
+    const timestamps: ResourceColumn[] = model.timestamps
+      ? [
+          { name: 'createdAt', label: 'Created', kind: 'datetime', optional: false },
+          { name: 'updatedAt', label: 'Updated', kind: 'datetime', optional: false },
+        ]
+      : [];
+
+    // The table links each row through its first short string, or its id when it has none
+    const linkColumn: ResourceColumn = inputs.find((input) => input.kind === 'string') ?? {
+      name: 'id',
+      label: 'ID',
+      kind: 'string',
+      optional: false,
+    };
+    const tableColumns = [
+      linkColumn,
+      ...inputs.filter((input) => input !== linkColumn && !['text', 'relation'].includes(input.kind)),
+      ...timestamps.slice(0, 1),
+    ];
+
+    const validation = inputs.map((input) => ({ name: input.name, zod: getZodType(input) }));
+    const data = {
+      model,
+      names,
+      orm,
+      recordType: `${model.name}Record`,
+      title: toLabel(model.name),
+      pluralTitle: toLabel(names.pluralPascal),
+      inputs: inputs.map((input) => ({
+        ...input,
+        attributes: INPUT_ATTRIBUTES[input.kind] ?? '',
+        formDefault: getFormDefault(input, names.singular),
+      })),
+      validation,
+      usesEmptyToNull: validation.some(({ zod }) => zod.includes('emptyToNull')),
+      usesEmptyToUndefined: validation.some(({ zod }) => zod.includes('emptyToUndefined')),
+      hasDatetime: inputs.some((input) => input.kind === 'datetime'),
+      detailFields: [...inputs, ...timestamps].map((column) => ({
+        label: column.label,
+        value: getDisplayValue(column, names.singular),
+      })),
+      linkColumn: linkColumn.name,
+      tableColumns: tableColumns.map((column) => ({
+        name: column.name,
+        label: column.label,
+        value: getDisplayValue(column, 'row.original'),
+        rowValue: getDisplayValue(column, names.singular),
+      })),
+    };
+
+    const generatedFiles: string[] = [];
+    const writeCrudFile = async (template: string, destination: string) => {
+      const content = await ctx.renderTemplate(`crud/${template}`, config, data);
+      const filePath = path.join(projectPath, destination);
+      await ctx.mkdir(path.dirname(filePath));
+      const sourcePath = await writeSourceFile(ctx, config, filePath, content);
+      generatedFiles.push(path.relative(projectPath, sourcePath).split(path.sep).join('/'));
+    };
+
+    // Validation and data access
+    await writeCrudFile('validation.ts.template', `src/lib/validations/${names.file}.ts`);
+    await writeCrudFile(`data/${orm}.ts.template`, `src/lib/db/${names.route}.ts`);
+
+    // Route handlers for API clients, and server actions for the pages
+    await writeCrudFile('api-route.ts.template', `src/app/api/${names.route}/route.ts`);
+    await writeCrudFile('api-item-route.ts.template', `src/app/api/${names.route}/[id]/route.ts`);
+    await writeCrudFile('actions.ts.template', `src/app/${names.route}/actions.ts`);
+
+    // List, detail, create and edit pages
+    await writeCrudFile('list-page.tsx.template', `src/app/${names.route}/page.tsx`);
+    await writeCrudFile('detail-page.tsx.template', `src/app/${names.route}/[id]/page.tsx`);
+    await writeCrudFile('new-page.tsx.template', `src/app/${names.route}/new/page.tsx`);
+    await writeCrudFile('edit-page.tsx.template', `src/app/${names.route}/[id]/edit/page.tsx`);
+    await writeCrudFile('form.tsx.template', `src/components/${names.route}/${names.file}-form.tsx`);
+    if (useShadcn) {
+      await writeCrudFile('table.tsx.template', `src/components/${names.route}/${names.route}-table.tsx`);
+    }
+
+    // Add what the generated code imports, keeping versions the project already pins
+    const dependencies: (keyof typeof PACKAGE_VERSIONS)[] = useShadcn
+      ? ['zod', 'react-hook-form', '@hookform/resolvers', '@tanstack/react-table']
+      : ['zod'];
+    const packageJsonPath = path.join(projectPath, 'package.json');
+    const packageJson = JSON.parse((await ctx.readFileForUpdate(packageJsonPath)) || '{}');
+    packageJson.dependencies = {
+      ...Object.fromEntries(dependencies.map((dependency) => [dependency, PACKAGE_VERSIONS[dependency]])),
+      ...packageJson.dependencies,
+    };
+    await ctx.writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
+    if (/^[\^~>=]*[0-3]\./.test(packageJson.dependencies.zod)) {
+      ctx.warn(`The generated validation uses Zod 4, but the project pins zod ${packageJson.dependencies.zod}`);
+    }
+
+    const nextSteps = [`Install the dependencies: ${packageManager} install`];
+    if (useShadcn) {
+      const missingComponents = SHADCN_COMPONENTS.filter(
+        (component) =>
+          !ctx.exists(getSourcePath(ctx, config, path.join(projectPath, 'src/components/ui', `${component}.tsx`)))
+      );
+      if (missingComponents.length > 0) {
+        nextSteps.push(
+          `Add the shadcn/ui components the pages use: ${getPackageRunnerDlx(packageManager)} shadcn@latest add ${missingComponents.join(' ')}`
+        );
+      }
+    }
+    if (auth === 'better-auth') {
+      await checkRouteProtection(ctx, config, projectPath, names.route);
+    }
+    nextSteps.push(`Open http://localhost:3000/${names.route}`);
+    ctx.addNextSteps(...nextSteps);
+
+    logger.info(`CRUD resource ${names.route} generated`);
+
+    return {
+      status: 'success',
+      content: [
+        {
+          type: 'text',
+          text: `✅ Generated the ${names.route} resource for ${model.name}
+
+Files:
+${generatedFiles.map((file) => `- ${file}`).join('\n')}
+${auth === 'better-auth' ? `\nThe pages and /api/${names.route} require a signed-in user through src/proxy.ts\n` : ''}
+Next steps:
+${nextSteps.map((step, index) => `${index + 1}. ${step}`).join('\n')}`,
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`CRUD generation failed: ${errorMessage}`);
+    return {
+      status: 'failed',
+      content: [
+        {
+          type: 'text',
+          text: `Failed to generate CRUD resource: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,249 @@
+import { existsSync, promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import { getArchitectureIssues, parseProjectConfig, ProjectConfigFieldsSchema, type ProjectConfig } from '../config.js';
+import { MANIFEST_FILENAME } from '../constants.js';
+import { ToolRunContext } from '../context.js';
+import { readManifest, updateManifest } from '../manifest.js';
+import type { ToolResult } from '../tool-result.js';
+
+/**
+ * Infers a ProjectConfig for a Next.js project next-mcp did not create.
+ * Each field gets a confidence between 0 and 1 and the evidence it was based on.
+ */
+export async function detectProjectConfig(
+  ctx: ToolRunContext,
+  projectPath: string,
+  writeManifest: boolean
+): Promise<ToolResult> {
+  try {
+    const packageJsonPath = path.join(projectPath, 'package.json');
+    if (!existsSync(packageJsonPath)) {
+      throw new Error(`No package.json found in ${projectPath}`);
+    }
+
+    const manifest = await readManifest(projectPath);
+    if (manifest) {
+      const fields = ['name', 'description', ...Object.keys(manifest.config.architecture)];
+      return {
+        status: 'success',
+        content: [
+          {
+            type: 'text',
+            text: `✅ Using the config recorded in ${MANIFEST_FILENAME}\n\n[Config]:\n${JSON.stringify(manifest.config, null, 2)}\n\n[Confidence]:\n${fields.map((field) => `- ${field}: 1 (recorded in ${MANIFEST_FILENAME})`).join('\n')}`,
+          },
+        ],
+      };
+    }
+
+    const packageJson = JSON.parse(await fs.readFile(packageJsonPath, 'utf-8'));
+    const dependencies: Record<string, string> = { ...packageJson.dependencies, ...packageJson.devDependencies };
+    const hasDependency = (...names: string[]) => names.find((dependency) => dependency in dependencies);
+    const hasFile = (...files: string[]) => files.find((file) => existsSync(path.join(projectPath, file)));
+    const readText = async (file: string) => fs.readFile(path.join(projectPath, file), 'utf-8').catch(() => '');
+
+    const detections: Record<string, { value: unknown; confidence: number; evidence: string }> = {};
+    const detect = (field: string, value: unknown, confidence: number, evidence: string) => {
+      detections[field] = { value, confidence, evidence };
+    };
+
+    // Project metadata
+    if (packageJson.name) {
+      detect('name', packageJson.name, 0.9, 'package.json name');
+    } else {
+      detect('name', path.basename(path.resolve(projectPath)), 0.5, 'project directory name');
+    }
+    if (packageJson.description) {
+      detect('description', packageJson.description, 0.9, 'package.json description');
+    }
+
+    // Language and compiler
+    if (hasFile('tsconfig.json')) {
+      detect('typescript', true, 0.95, 'tsconfig.json');
+    } else if (hasFile('jsconfig.json')) {
+      detect('typescript', false, 0.9, 'jsconfig.json');
+    } else if (hasDependency('typescript')) {
+      detect('typescript', true, 0.7, 'typescript dependency');
+    } else {
+      detect('typescript', false, 0.5, 'no tsconfig.json or typescript dependency');
+    }
+
+    const nextConfigFile = hasFile('next.config.ts', 'next.config.mjs', 'next.config.js');
+    const nextConfig = nextConfigFile ? await readText(nextConfigFile) : '';
+    if (/reactCompiler:\s*true/.test(nextConfig)) {
+      detect('reactCompiler', true, 0.95, `reactCompiler enabled in ${nextConfigFile}`);
+    } else if (hasDependency('babel-plugin-react-compiler')) {
+      detect('reactCompiler', true, 0.7, 'babel-plugin-react-compiler dependency');
+    } else {
+      detect('reactCompiler', false, 0.8, 'React Compiler not configured');
+    }
+
+    detect('skipInstall', !existsSync(path.join(projectPath, 'node_modules')), 0.5, 'node_modules presence');
+
+    // Package manager, from lockfiles first and the packageManager field second
+    const lockfiles: Record<string, ProjectConfig['architecture']['packageManager']> = {
+      'pnpm-lock.yaml': 'pnpm',
+      'yarn.lock': 'yarn',
+      'bun.lock': 'bun',
+      'bun.lockb': 'bun',
+      'package-lock.json': 'npm',
+    };
+    const lockfile = hasFile(...Object.keys(lockfiles));
+    const packageManagerField = String(packageJson.packageManager ?? '').split('@')[0];
+    if (lockfile) {
+      detect('packageManager', lockfiles[lockfile], 0.95, lockfile);
+    } else if (['npm', 'pnpm', 'yarn', 'bun'].includes(packageManagerField)) {
+      detect('packageManager', packageManagerField, 0.9, 'package.json packageManager field');
+    } else {
+      detect('packageManager', 'npm', 0.3, 'no lockfile found');
+    }
+
+    // Database and ORM
+    const prismaSchema = await readText(path.join('prisma', 'schema.prisma'));
+    const prismaProvider = prismaSchema.match(/datasource\s+\w+\s*\{[^}]*provider\s*=\s*"(\w+)"/)?.[1];
+    const drizzleConfigFile = hasFile('drizzle.config.ts', 'drizzle.config.js', 'drizzle.config.mjs');
+    const drizzleDialect = drizzleConfigFile
+      ? (await readText(drizzleConfigFile)).match(/dialect:\s*['"](\w+)['"]/)?.[1]
+      : undefined;
+    const kyselyConfigFile = hasFile('kysely.config.ts', 'kysely.config.js', 'kysely.config.mjs');
+    const databaseUrlScheme = (await readText('.env')).match(/^DATABASE_URL="?(\w+):/m)?.[1];
+    const databaseAliases: Record<string, ProjectConfig['architecture']['database']> = {
+      postgresql: 'postgres',
+      postgres: 'postgres',
+      mysql: 'mysql',
+      sqlite: 'sqlite',
+      turso: 'sqlite',
+      file: 'sqlite',
+      mongodb: 'mongodb',
+    };
+    const driverDependencies: Array<[string[], ProjectConfig['architecture']['database']]> = [
+      [['pg', 'postgres', '@neondatabase/serverless', '@prisma/adapter-pg'], 'postgres'],
+      [['mysql2', 'mariadb', '@prisma/adapter-mariadb'], 'mysql'],
+      [['better-sqlite3', '@libsql/client', '@prisma/adapter-better-sqlite3', '@prisma/adapter-libsql'], 'sqlite'],
+      [['mongodb', 'mongoose'], 'mongodb'],
+    ];
+    const driver = driverDependencies.find(([names]) => hasDependency(...names));
+
+    if (prismaProvider && databaseAliases[prismaProvider]) {
+      detect('database', databaseAliases[prismaProvider], 0.95, `prisma/schema.prisma provider "${prismaProvider}"`);
+    } else if (drizzleDialect && databaseAliases[drizzleDialect]) {
+      detect('database', databaseAliases[drizzleDialect], 0.9, `${drizzleConfigFile} dialect "${drizzleDialect}"`);
+    } else if (driver) {
+      detect('database', driver[1], 0.8, `${hasDependency(...driver[0])} dependency`);
+    } else if (databaseUrlScheme && databaseAliases[databaseUrlScheme]) {
+      detect('database', databaseAliases[databaseUrlScheme], 0.6, 'DATABASE_URL in .env');
+    } else {
+      detect('database', 'none', 0.6, 'no database driver, schema or DATABASE_URL found');
+    }
+
+    if (prismaSchema || hasDependency('@prisma/client', 'prisma')) {
+      detect('orm', 'prisma', 0.95, prismaSchema ? 'prisma/schema.prisma' : 'Prisma dependency');
+    } else if (drizzleConfigFile || hasDependency('drizzle-orm')) {
+      detect('orm', 'drizzle', 0.95, drizzleConfigFile ?? 'drizzle-orm dependency');
+    } else if (kyselyConfigFile || hasDependency('kysely')) {
+      detect('orm', 'kysely', 0.9, kyselyConfigFile ?? 'kysely dependency');
+    } else if (hasDependency('mongoose')) {
+      detect('orm', 'mongoose', 0.9, 'mongoose dependency');
+    } else {
+      detect('orm', 'none', 0.7, 'no ORM dependency found');
+    }
+
+    // Authentication
+    const authFile = hasFile(path.join('src', 'lib', 'auth.ts'), path.join('src', 'lib', 'auth.js'));
+    const otherAuth = hasDependency('next-auth', '@auth/core', '@clerk/nextjs', '@supabase/auth-helpers-nextjs');
+    if (authFile && (await readText(authFile)).includes('betterAuth')) {
+      detect('auth', 'better-auth', 0.95, `betterAuth configured in ${authFile}`);
+    } else if (hasDependency('better-auth')) {
+      detect('auth', 'better-auth', 0.8, 'better-auth dependency');
+    } else if (otherAuth) {
+      detect('auth', 'none', 0.4, `uses ${otherAuth}, which next-mcp does not manage`);
+    } else {
+      detect('auth', 'none', 0.8, 'no auth library found');
+    }
+
+    // UI, state management and testing
+    if (hasFile('components.json')) {
+      detect('uiLibrary', 'shadcn', 0.95, 'components.json');
+    } else if (hasDependency('class-variance-authority') && hasDependency('tailwind-merge')) {
+      detect('uiLibrary', 'shadcn', 0.6, 'class-variance-authority and tailwind-merge dependencies');
+    } else {
+      detect('uiLibrary', 'none', 0.7, 'no components.json found');
+    }
+
+    if (hasDependency('zustand')) {
+      detect('stateManagement', 'zustand', 0.9, 'zustand dependency');
+    } else if (hasDependency('@reduxjs/toolkit', 'react-redux')) {
+      detect('stateManagement', 'redux', 0.9, `${hasDependency('@reduxjs/toolkit', 'react-redux')} dependency`);
+    } else {
+      detect('stateManagement', 'none', 0.8, 'no state management dependency found');
+    }
+
+    const testingDependencies: Array<[string, ProjectConfig['architecture']['testing']]> = [
+      ['vitest', 'vitest'],
+      ['jest', 'jest'],
+      ['@playwright/test', 'playwright'],
+    ];
+    const testing = testingDependencies.find(([dependency]) => hasDependency(dependency));
+    if (testing) {
+      detect('testing', testing[1], 0.9, `${testing[0]} dependency`);
+    } else {
+      detect('testing', 'none', 0.8, 'no test runner dependency found');
+    }
+
+    const { name, description, ...architecture } = Object.fromEntries(
+      Object.entries(detections).map(([field, { value }]) => [field, value])
+    );
+    const config = await parseProjectConfig({ name, description, architecture }, ProjectConfigFieldsSchema);
+    const issues = getArchitectureIssues(config.architecture);
+    for (const issue of issues) {
+      ctx.warn(`architecture.${issue.path.join('.')}: ${issue.message}`);
+    }
+    const saveManifest = writeManifest && issues.length === 0;
+    if (writeManifest && !saveManifest) {
+      ctx.warn(`Not saved to ${MANIFEST_FILENAME} - later tools would reject this combination`);
+      ctx.addNextSteps('Fix the combination above and pass the corrected config to later tools');
+    }
+
+    if (!hasFile(path.join('src', 'app'))) {
+      ctx.warn('No src/app directory found - next-mcp generators write into src/ and the App Router');
+    }
+    if (otherAuth && config.architecture.auth === 'none') {
+      ctx.warn(`${otherAuth} is installed - running setup_authentication would add better-auth alongside it`);
+    }
+    const warnings = ctx.plan.warnings.map((warning) => `⚠️  ${warning}`);
+
+    if (saveManifest) {
+      await updateManifest(ctx, projectPath, 'detect_project_config', 'success', config);
+      ctx.plan.filesModified.push(path.resolve(projectPath, MANIFEST_FILENAME));
+    } else if (!writeManifest) {
+      ctx.addNextSteps(
+        `Call detect_project_config with writeManifest: true to save this config to ${MANIFEST_FILENAME}`
+      );
+    }
+
+    const confidence = Object.entries(detections).map(
+      ([field, { confidence, evidence }]) => `- ${field}: ${confidence} (${evidence})`
+    );
+
+    return {
+      status: 'success',
+      content: [
+        {
+          type: 'text',
+          text: `✅ Detected project config for ${projectPath}\n\n[Config]:\n${JSON.stringify(config, null, 2)}\n\n[Confidence]:\n${confidence.join('\n')}${warnings.length > 0 ? `\n\n[Warnings]:\n${warnings.join('\n')}` : ''}${saveManifest ? `\n\nSaved to ${MANIFEST_FILENAME} - later tools can omit the config argument` : ''}`,
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      status: 'failed',
+      content: [
+        {
+          type: 'text',
+          text: `❌ Failed to detect project config: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,101 @@
+import path from 'node:path';
+
+import type { ProjectConfig } from '../config.js';
+import { DEFAULT_DOCKER_BASE_IMAGE, PRISMA_GENERATED_DIR } from '../constants.js';
+import { ToolRunContext } from '../context.js';
+import type { ToolResult } from '../tool-result.js';
+
+// MongoDB has no migrations, so Prisma pushes the schema instead; Mongoose and plain drivers have nothing to migrate
+function getMigrateCommand(config: ProjectConfig): string | undefined {
+  const { database, orm } = config.architecture;
+  if (orm === 'prisma') {
+    return database === 'mongodb' ? 'npx prisma db push' : 'npx prisma migrate deploy';
+  }
+  if (orm === 'drizzle') {
+    return 'npx drizzle-kit migrate';
+  }
+  if (orm === 'kysely') {
+    return 'npx kysely migrate:latest';
+  }
+  return undefined;
+}
+
+// How the migrate image gets the package manager, which files pin the dependencies and how they are installed
+const PACKAGE_MANAGER_DOCKER_SETUP: Record<
+  ProjectConfig['architecture']['packageManager'],
+  { setupCommand?: string; lockfiles: string; installCommand: string }
+> = {
+  npm: { lockfiles: 'package-lock.json', installCommand: 'npm ci' },
+  pnpm: {
+    setupCommand: 'corepack enable && corepack prepare pnpm@latest --activate',
+    lockfiles: 'pnpm-lock.yaml pnpm-workspace.yaml*',
+    installCommand: 'pnpm install --frozen-lockfile',
+  },
+  yarn: { lockfiles: 'yarn.lock', installCommand: 'yarn install --frozen-lockfile' },
+  bun: { setupCommand: 'npm install -g bun', lockfiles: 'bun.lock*', installCommand: 'bun install --frozen-lockfile' },
+};
+
+export async function generateDockerfile(
+  ctx: ToolRunContext,
+  config: ProjectConfig,
+  projectPath: string,
+  baseImage = DEFAULT_DOCKER_BASE_IMAGE
+): Promise<ToolResult> {
+  try {
+    // Address of the database from inside the compose network
+    const { database } = config.architecture;
+    const databaseUrls: Record<string, string> = {
+      postgres: `postgresql://postgres:postgres@db:5432/${config.name}`,
+      mysql: `mysql://mysql:mysql@db:3306/${config.name}`,
+      mongodb: `mongodb://db:27017/${config.name}`,
+      sqlite: `file:/app/data/${config.name}.db`,
+    };
+
+    const dockerfile = await ctx.renderTemplate('docker/Dockerfile', config, { baseImage });
+    const dockerignore = await ctx.renderTemplate('docker/.dockerignore', config, {
+      prismaGeneratedDir: PRISMA_GENERATED_DIR,
+    });
+    const dockerCompose = await ctx.renderTemplate('docker/docker-compose.yml', config, {
+      databaseUrl: databaseUrls[database],
+    });
+
+    await ctx.writeFile(path.join(projectPath, 'Dockerfile'), dockerfile);
+    await ctx.writeFile(path.join(projectPath, '.dockerignore'), dockerignore);
+    await ctx.writeFile(path.join(projectPath, 'docker-compose.yml'), dockerCompose);
+
+    // Dockerfile.migrate builds the compose migrate service, which runs the migrations and, with SEED=true, the seed
+    let migrateDockerfileMessage = '';
+    if (database !== 'none') {
+      const { packageManager } = config.architecture;
+      const dockerfileMigrate = await ctx.renderTemplate('docker/Dockerfile.migrate', config, {
+        baseImage,
+        ...PACKAGE_MANAGER_DOCKER_SETUP[packageManager],
+        migrateCommand: getMigrateCommand(config),
+        seedCommand: `${packageManager} run db:seed`,
+      });
+      await ctx.writeFile(path.join(projectPath, 'Dockerfile.migrate'), dockerfileMigrate);
+      migrateDockerfileMessage = '\n- Dockerfile.migrate for running migrations and the seed script';
+    }
+
+    return {
+      status: 'success',
+      content: [
+        {
+          type: 'text',
+          text: `✅ Generated Docker configuration:\n- Dockerfile (based on ${baseImage})\n- docker-compose.yml with ${config.architecture.database} database setup${migrateDockerfileMessage}`,
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      status: 'failed',
+      content: [
+        {
+          type: 'text',
+          text: `❌ Failed to generate Docker configuration: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,585 @@
+import path from 'node:path';
+
+import { z } from 'zod';
+
+import type { ProjectConfig } from '../config.js';
+import { ToolRunContext } from '../context.js';
+import { execCommand, getPackageRunner } from '../exec.js';
+import { logger } from '../logger.js';
+import { getSourcePath, writeSourceFile } from '../source-files.js';
+import type { ToolResult } from '../tool-result.js';
+import { generateDrizzleSchemaImports, getPrismaCli } from './database.js';
+
+export const MODEL_FIELD_TYPES = ['string', 'text', 'int', 'float', 'boolean', 'datetime', 'json'] as const;
+
+type FieldType = (typeof MODEL_FIELD_TYPES)[number];
+
+const modelNameSchema = z.string().regex(/^[A-Z][A-Za-z0-9]*$/, 'Must be a PascalCase model name such as BlogPost');
+const fieldNameSchema = z.string().regex(/^[a-z][A-Za-z0-9]*$/, 'Must be a camelCase field name such as publishedAt');
+
+// Fields every model gets, so definitions cannot declare them
+const RESERVED_FIELDS = ['id', 'createdAt', 'updatedAt'];
+
+/**
+ * An entity described independently of the ORM. Every model gets an id, and createdAt and updatedAt unless
+ * timestamps is false.
+ */
+export const ModelDefinitionSchema = z
+  .object({
+    name: modelNameSchema.describe('Model name in PascalCase, e.g. BlogPost'),
+    fields: z
+      .array(
+        z.object({
+          name: fieldNameSchema,
+          type: z
+            .enum(MODEL_FIELD_TYPES)
+            .describe('string is a short string (255 characters in SQL), text is unbounded'),
+          optional: z.boolean().optional().default(false).describe('Allow the field to be empty'),
+          unique: z.boolean().optional().default(false).describe('Reject duplicate values'),
+          default: z
+            .union([z.string(), z.number(), z.boolean()])
+            .optional()
+            .describe('Default value. "now" defaults a datetime field to the current time'),
+        })
+      )
+      .min(1)
+      .describe('Fields besides the id and timestamps'),
+    relations: z
+      .array(
+        z.object({
+          name: fieldNameSchema.describe('Relation field, e.g. author. SQL databases store it in an <name>Id column'),
+          model: modelNameSchema.describe('Model the relation points to, e.g. User'),
+          optional: z.boolean().optional().default(false).describe('Allow records without a related one'),
+        })
+      )
+      .optional()
+      .default([])
+      .describe('Many-to-one relations to other models'),
+    indexes: z
+      .array(
+        z.object({
+          fields: z.array(z.string()).min(1).describe('Field or relation names, in index order'),
+          unique: z.boolean().optional().default(false).describe('Make the combination of fields unique'),
+        })
+      )
+      .optional()
+      .default([])
+      .describe('Indexes over one or more fields'),
+    timestamps: z.boolean().optional().default(true).describe('Add createdAt and updatedAt fields'),
+  })
+  .superRefine((model, ctx) => {
+    const names = new Set<string>();
+    const members = [
+      ...model.fields.map((field, index) => ({ name: field.name, path: ['fields', index, 'name'] })),
+      ...model.relations.flatMap((relation, index) => [
+        { name: relation.name, path: ['relations', index, 'name'] },
+        { name: `${relation.name}Id`, path: ['relations', index, 'name'] },
+      ]),
+    ];
+    for (const { name, path } of members) {
+      if (RESERVED_FIELDS.includes(name) || names.has(name)) {
+        ctx.addIssue({
+          code: 'custom',
+          path,
+          message: RESERVED_FIELDS.includes(name) ? `${name} is added to every model` : `Duplicate field ${name}`,
+        });
+      }
+      names.add(name);
+    }
+
+    model.indexes.forEach((index, indexPosition) => {
+      index.fields.forEach((field, fieldPosition) => {
+        if (!names.has(field) && !RESERVED_FIELDS.includes(field)) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['indexes', indexPosition, 'fields', fieldPosition],
+            message: `Unknown field ${field}`,
+          });
+        }
+      });
+    });
+  });
+
+export type ModelDefinition = z.infer<typeof ModelDefinitionSchema>;
+
+export type ModelField = ModelDefinition['fields'][number];
+
+const toCamelCase = (name: string) => name[0].toLowerCase() + name.slice(1);
+
+const toSnakeCase = (name: string) => name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+
+function pluralize(word: string): string {
+  if (/[^aeiou]y$/.test(word)) return `${word.slice(0, -1)}ies`;
+  if (/(s|x|z|ch|sh)$/.test(word)) return `${word}es`;
+  return `${word}s`;
+}
+
+/**
+ * Names derived from a model name, shown for BlogPost
+ */
+export function getModelNames(name: string) {
+  const plural = pluralize(name);
+  return {
+    // blogPost, the Prisma client property and the variable for one record
+    singular: toCamelCase(name),
+    // blogPosts, the Drizzle table variable
+    plural: toCamelCase(plural),
+    // BlogPosts
+    pluralPascal: plural,
+    // blog_posts, the SQL table
+    table: toSnakeCase(plural),
+    // blog-post, the Mongoose model file
+    file: toSnakeCase(name).replaceAll('_', '-'),
+    // blog-posts, the URL path of the resource
+    route: toSnakeCase(plural).replaceAll('_', '-'),
+  };
+}
+
+// SQL models store a relation in a foreign key column named after it
+function getIndexColumns(model: ModelDefinition, fields: string[]): string[] {
+  const relations = new Set(model.relations.map((relation) => relation.name));
+  return fields.map((field) => (relations.has(field) ? `${field}Id` : field));
+}
+
+export function formatDefault(value: string | number | boolean): string {
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+// Prisma
+
+const PRISMA_TYPES: Record<FieldType, string> = {
+  string: 'String',
+  text: 'String',
+  int: 'Int',
+  float: 'Float',
+  boolean: 'Boolean',
+  datetime: 'DateTime',
+  json: 'Json',
+};
+
+function getPrismaField(field: ModelField, database: string): string[] {
+  const attributes: string[] = [];
+  if (field.unique) attributes.push('@unique');
+  if (field.default !== undefined) {
+    attributes.push(
+      field.type === 'datetime' && field.default === 'now'
+        ? '@default(now())'
+        : `@default(${formatDefault(field.default)})`
+    );
+  }
+  if (field.type === 'text' && (database === 'postgres' || database === 'mysql')) attributes.push('@db.Text');
+
+  return [field.name, `${PRISMA_TYPES[field.type]}${field.optional ? '?' : ''}`, attributes.join(' ')];
+}
+
+/**
+ * Lines of the Prisma model block, with names and types aligned the way prisma format lays them out
+ */
+function getPrismaModelLines(model: ModelDefinition, database: string) {
+  const objectId = database === 'mongodb' ? ' @db.ObjectId' : '';
+  const rows: string[][] = [
+    database === 'mongodb'
+      ? ['id', 'String', '@id @default(auto()) @map("_id") @db.ObjectId']
+      : ['id', 'String', '@id @default(uuid())'],
+    ...model.fields.map((field) => getPrismaField(field, database)),
+    ...model.relations.flatMap((relation) => {
+      const optional = relation.optional ? '?' : '';
+      return [
+        [`${relation.name}Id`, `String${optional}`, objectId.trim()],
+        [relation.name, `${relation.model}${optional}`, `@relation(fields: [${relation.name}Id], references: [id])`],
+      ];
+    }),
+    ...(model.timestamps
+      ? [
+          ['createdAt', 'DateTime', '@default(now())'],
+          ['updatedAt', 'DateTime', '@updatedAt'],
+        ]
+      : []),
+  ];
+
+  const nameWidth = Math.max(...rows.map(([name]) => name.length));
+  const typeWidth = Math.max(...rows.map(([, type]) => type.length));
+  const fields = rows.map(([name, type, attributes]) =>
+    `${name.padEnd(nameWidth)} ${attributes ? `${type.padEnd(typeWidth)} ${attributes}` : type}`.trimEnd()
+  );
+  const blockAttributes = model.indexes.map(
+    (index) => `@@${index.unique ? 'unique' : 'index'}([${getIndexColumns(model, index.fields).join(', ')}])`
+  );
+
+  return { fields, blockAttributes };
+}
+
+/**
+ * Adds the list side of each relation to the related model, which Prisma requires
+ */
+function addPrismaBackRelations(ctx: ToolRunContext, schema: string, model: ModelDefinition): string {
+  for (const relation of model.relations) {
+    const block = new RegExp(`^model ${relation.model} \\{\\n([\\s\\S]*?)^\\}`, 'm').exec(schema);
+    if (!block) {
+      ctx.warn(
+        `Model ${relation.model} is not in prisma/schema.prisma; add it with a ${model.name}[] field before generating the client`
+      );
+      continue;
+    }
+    if (new RegExp(`\\s${model.name}\\[\\]`).test(block[1])) {
+      continue;
+    }
+
+    const insertAt = block.index + block[0].length - 1;
+    schema = `${schema.slice(0, insertAt)}  ${getModelNames(model.name).plural} ${model.name}[]\n${schema.slice(insertAt)}`;
+  }
+  return schema;
+}
+
+async function generatePrismaModel(
+  ctx: ToolRunContext,
+  config: ProjectConfig,
+  projectPath: string,
+  model: ModelDefinition
+) {
+  const { database } = config.architecture;
+  const schemaPath = path.join(projectPath, 'prisma', 'schema.prisma');
+  let schema = await ctx.readFileForUpdate(schemaPath).catch(() => {
+    throw new Error('prisma/schema.prisma not found. Run setup_database first.');
+  });
+  if (new RegExp(`^model ${model.name} \\{`, 'm').test(schema)) {
+    throw new Error(`Model ${model.name} already exists in prisma/schema.prisma`);
+  }
+
+  schema = addPrismaBackRelations(ctx, schema, model);
+  const modelBlock = await ctx.renderTemplate('database/model/schema.prisma.template', config, {
+    model,
+    ...getPrismaModelLines(model, database),
+  });
+  await ctx.writeFile(schemaPath, `${schema.trimEnd()}\n\n${modelBlock}`);
+
+  // Regenerate the client so the new model is typed, unless packages are not installed
+  if (!config.architecture.skipInstall) {
+    const result = await execCommand(ctx, `${getPrismaCli(config)} generate`, projectPath, 'prisma generate');
+    if (!result.success) {
+      throw new Error(`[prisma generate failed]: ${result.error}`);
+    }
+  } else {
+    ctx.addNextSteps(`Generate the client: ${getPrismaCli(config)} generate`);
+  }
+
+  const packageRunner = getPackageRunner(config.architecture.packageManager);
+  ctx.addNextSteps(
+    database === 'mongodb'
+      ? `Push the schema: ${packageRunner} prisma db push`
+      : `Create a migration: ${packageRunner} prisma migrate dev -n add_${toSnakeCase(model.name)}`
+  );
+  return 'prisma/schema.prisma';
+}
+
+// Drizzle
+
+type DrizzleDialect = {
+  table: string;
+  id: string;
+  reference: (column: string) => string;
+  columns: Record<FieldType, (column: string) => string>;
+  now: string;
+};
+
+const DRIZZLE_DIALECTS: Record<string, DrizzleDialect> = {
+  postgres: {
+    table: 'pgTable',
+    id: "uuid('id').primaryKey().defaultRandom()",
+    reference: (column) => `uuid('${column}')`,
+    columns: {
+      string: (column) => `varchar('${column}', { length: 255 })`,
+      text: (column) => `text('${column}')`,
+      int: (column) => `integer('${column}')`,
+      float: (column) => `doublePrecision('${column}')`,
+      boolean: (column) => `boolean('${column}')`,
+      datetime: (column) => `timestamp('${column}')`,
+      json: (column) => `jsonb('${column}')`,
+    },
+    now: '.defaultNow()',
+  },
+  mysql: {
+    table: 'mysqlTable',
+    id: "varchar('id', { length: 36 }).primaryKey().$defaultFn(() => crypto.randomUUID())",
+    reference: (column) => `varchar('${column}', { length: 36 })`,
+    columns: {
+      string: (column) => `varchar('${column}', { length: 255 })`,
+      text: (column) => `text('${column}')`,
+      int: (column) => `int('${column}')`,
+      float: (column) => `double('${column}')`,
+      boolean: (column) => `boolean('${column}')`,
+      datetime: (column) => `timestamp('${column}')`,
+      json: (column) => `json('${column}')`,
+    },
+    now: '.defaultNow()',
+  },
+  sqlite: {
+    table: 'sqliteTable',
+    id: "text('id').primaryKey().$defaultFn(() => crypto.randomUUID())",
+    reference: (column) => `text('${column}')`,
+    columns: {
+      string: (column) => `text('${column}')`,
+      text: (column) => `text('${column}')`,
+      int: (column) => `integer('${column}')`,
+      float: (column) => `real('${column}')`,
+      boolean: (column) => `integer('${column}', { mode: 'boolean' })`,
+      datetime: (column) => `integer('${column}', { mode: 'timestamp' })`,
+      json: (column) => `text('${column}', { mode: 'json' })`,
+    },
+    now: '.$defaultFn(() => new Date())',
+  },
+};
+
+/**
+ * Finds the table a relation points to, under the plural or singular name (better-auth names its tables user,
+ * session, ...), and the builder of its id column so the foreign key gets the same type
+ */
+function findDrizzleTable(schema: string, modelName: string): { variable: string; idBuilder?: string } | undefined {
+  const { plural, singular } = getModelNames(modelName);
+  for (const variable of [plural, singular]) {
+    const table = new RegExp(`export const ${variable} = \\w+Table\\([\\s\\S]*?\\n\\}`).exec(schema);
+    if (table) {
+      return { variable, idBuilder: /\bid: (\w+)\(/.exec(table[0])?.[1] };
+    }
+  }
+  return undefined;
+}
+
+function getDrizzleColumns(ctx: ToolRunContext, model: ModelDefinition, dialect: DrizzleDialect, schema: string) {
+  const columns = [{ name: 'id', code: dialect.id }];
+
+  for (const field of model.fields) {
+    let code = dialect.columns[field.type](toSnakeCase(field.name));
+    if (!field.optional) code += '.notNull()';
+    if (field.unique) code += '.unique()';
+    if (field.default !== undefined) {
+      code +=
+        field.type === 'datetime' && field.default === 'now'
+          ? dialect.now
+          : `.default(${formatDefault(field.default)})`;
+    }
+    columns.push({ name: field.name, code });
+  }
+
+  for (const relation of model.relations) {
+    const column = `${toSnakeCase(relation.name)}_id`;
+    const table = findDrizzleTable(schema, relation.model);
+    let code = table?.idBuilder === 'text' ? `text('${column}')` : dialect.reference(column);
+    if (!relation.optional) code += '.notNull()';
+    if (table) {
+      code += `.references(() => ${table.variable}.id)`;
+    } else {
+      ctx.warn(
+        `No table for ${relation.model} in the Drizzle schema, so ${relation.name}Id has no foreign key; add .references() once the table exists`
+      );
+    }
+    columns.push({ name: `${relation.name}Id`, code });
+  }
+
+  if (model.timestamps) {
+    const timestamp = dialect.columns.datetime;
+    columns.push(
+      { name: 'createdAt', code: `${timestamp('created_at')}.notNull()${dialect.now}` },
+      { name: 'updatedAt', code: `${timestamp('updated_at')}.notNull()${dialect.now}.$onUpdate(() => new Date())` }
+    );
+  }
+
+  return columns;
+}
+
+async function generateDrizzleModel(
+  ctx: ToolRunContext,
+  config: ProjectConfig,
+  projectPath: string,
+  model: ModelDefinition
+) {
+  const { database } = config.architecture;
+  const dialect = DRIZZLE_DIALECTS[database] ?? DRIZZLE_DIALECTS.postgres;
+  const schemaPath = getSourcePath(ctx, config, path.join(projectPath, 'src/lib/db/schema.ts'));
+  const schemaFile = path.relative(projectPath, schemaPath).split(path.sep).join('/');
+  let schema = await ctx.readFileForUpdate(schemaPath).catch(() => {
+    throw new Error(`${schemaFile} not found. Run setup_database first.`);
+  });
+
+  const { table: tableName, plural: tableVariable } = getModelNames(model.name);
+  if (new RegExp(`export const ${tableVariable} =`).test(schema)) {
+    throw new Error(`Table ${tableVariable} already exists in ${schemaFile}`);
+  }
+
+  const columns = getDrizzleColumns(ctx, model, dialect, schema);
+  const indexes = model.indexes.map((index) => {
+    const indexColumns = getIndexColumns(model, index.fields);
+    const indexName = `${tableName}_${indexColumns.map(toSnakeCase).join('_')}_idx`;
+    return `${index.unique ? 'uniqueIndex' : 'index'}('${indexName}').on(${indexColumns.map((column) => `table.${column}`).join(', ')})`;
+  });
+
+  // Import the builders the table uses alongside the ones the schema already imports
+  const builders = [dialect.table, ...columns.map(({ code }) => code.slice(0, code.indexOf('(')))];
+  if (model.indexes.some((index) => !index.unique)) builders.push('index');
+  if (model.indexes.some((index) => index.unique)) builders.push('uniqueIndex');
+  const schemaImport = /^import \{([^}]*)\} from 'drizzle-orm\/(?:pg|mysql|sqlite)-core';$/m.exec(schema);
+  const existingBuilders = schemaImport ? schemaImport[1].split(',').map((name) => name.trim()) : [];
+  const imports = generateDrizzleSchemaImports(database, [...new Set([...existingBuilders, ...builders])].sort());
+  schema = schemaImport ? schema.replace(schemaImport[0], imports) : `${imports}\n${schema}`;
+
+  const table = await ctx.renderTemplate('database/model/drizzle.ts.template', config, {
+    model,
+    tableName,
+    tableVariable,
+    tableBuilder: dialect.table,
+    columns,
+    indexes,
+  });
+  await ctx.writeFile(schemaPath, `${schema.trimEnd()}\n\n${table}`);
+
+  const packageRunner = getPackageRunner(config.architecture.packageManager);
+  ctx.addNextSteps(
+    `Generate a migration: ${packageRunner} drizzle-kit generate`,
+    `Apply it: ${packageRunner} drizzle-kit migrate`
+  );
+  return schemaFile;
+}
+
+// Mongoose
+
+const MONGOOSE_TYPES: Record<FieldType, string> = {
+  string: 'String',
+  text: 'String',
+  int: 'Number',
+  float: 'Number',
+  boolean: 'Boolean',
+  datetime: 'Date',
+  json: 'Schema.Types.Mixed',
+};
+
+function getMongooseFields(model: ModelDefinition) {
+  const fields = model.fields.map((field) => {
+    const options = [`type: ${MONGOOSE_TYPES[field.type]}`];
+    if (!field.optional) options.push('required: true');
+    if (field.unique) options.push('unique: true');
+    if (field.default !== undefined) {
+      options.push(
+        `default: ${field.type === 'datetime' && field.default === 'now' ? 'Date.now' : formatDefault(field.default)}`
+      );
+    }
+    return { name: field.name, definition: `{ ${options.join(', ')} }` };
+  });
+
+  for (const relation of model.relations) {
+    const required = relation.optional ? '' : ', required: true';
+    fields.push({
+      name: relation.name,
+      definition: `{ type: Schema.Types.ObjectId, ref: '${relation.model}'${required} }`,
+    });
+  }
+
+  return fields;
+}
+
+async function generateMongooseModel(
+  ctx: ToolRunContext,
+  config: ProjectConfig,
+  projectPath: string,
+  model: ModelDefinition
+) {
+  const fileName = getModelNames(model.name).file;
+  const modelPath = getSourcePath(ctx, config, path.join(projectPath, 'src/lib/db/models', `${fileName}.ts`));
+  if (ctx.exists(modelPath)) {
+    throw new Error(`${path.relative(projectPath, modelPath)} already exists`);
+  }
+
+  // Relations are stored as ObjectIds under their own name, so indexes use the names as given
+  const indexes = model.indexes.map((index) => {
+    const keys = index.fields.map((field) => `${field}: 1`).join(', ');
+    return index.unique ? `{ ${keys} }, { unique: true }` : `{ ${keys} }`;
+  });
+  const content = await ctx.renderTemplate('database/model/mongoose.ts.template', config, {
+    model,
+    schemaVariable: `${toCamelCase(model.name)}Schema`,
+    fields: getMongooseFields(model),
+    indexes,
+  });
+  await ctx.mkdir(path.dirname(modelPath));
+  const sourcePath = await writeSourceFile(
+    ctx,
+    config,
+    path.join(projectPath, 'src/lib/db/models', `${fileName}.ts`),
+    content
+  );
+
+  // Export the model from @/lib/db alongside the connection
+  const indexPath = getSourcePath(ctx, config, path.join(projectPath, 'src/lib/db/index.ts'));
+  const exportLine = `export * from './models/${fileName}';`;
+  const dbIndex = await ctx.readFileForUpdate(indexPath).catch(() => undefined);
+  if (dbIndex === undefined) {
+    ctx.warn(`src/lib/db/index not found; export the model with ${exportLine}`);
+  } else if (!dbIndex.includes(exportLine)) {
+    await ctx.writeFile(indexPath, `${dbIndex.trimEnd()}\n${exportLine}\n`);
+  }
+
+  ctx.addNextSteps(`Import the model: import { ${model.name} } from '@/lib/db'`);
+  return path.relative(projectPath, sourcePath).split(path.sep).join('/');
+}
+
+export async function generateModel(
+  ctx: ToolRunContext,
+  config: ProjectConfig,
+  projectPath: string,
+  model: ModelDefinition
+): Promise<ToolResult> {
+  const { orm } = config.architecture;
+
+  // Kysely has no schema to add the model to: migrations create the tables and src/lib/db/types.ts describes them
+  if (orm === 'kysely') {
+    return {
+      status: 'failed',
+      content: [
+        {
+          type: 'text',
+          text: `Failed to generate model: generate_model is not supported for kysely. Create the ${model.name} table in a migration in src/lib/db/migrations and add it to the Database type in src/lib/db/types.ts`,
+        },
+      ],
+    };
+  }
+
+  try {
+    let file: string;
+    if (orm === 'prisma') {
+      file = await generatePrismaModel(ctx, config, projectPath, model);
+    } else if (orm === 'drizzle') {
+      file = await generateDrizzleModel(ctx, config, projectPath, model);
+    } else if (orm === 'mongoose') {
+      file = await generateMongooseModel(ctx, config, projectPath, model);
+    } else {
+      throw new Error(`Models need an ORM (prisma, drizzle or mongoose), but the project uses orm: ${orm}`);
+    }
+
+    logger.info(`Model ${model.name} generated in ${file}`);
+    const nextSteps = ctx.plan.nextSteps;
+
+    return {
+      status: 'success',
+      content: [
+        {
+          type: 'text',
+          text: `✅ Added the ${model.name} model to ${file}
+
+Next steps:
+${nextSteps.map((step, index) => `${index + 1}. ${step}`).join('\n')}`,
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`Model generation failed: ${errorMessage}`);
+    return {
+      status: 'failed',
+      content: [
+        {
+          type: 'text',
+          text: `Failed to generate model: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,191 @@
+import path from 'node:path';
+
+import type { ProjectConfig } from '../config.js';
+import { MANIFEST_FILENAME } from '../constants.js';
+import { ToolRunContext } from '../context.js';
+import { logger } from '../logger.js';
+import { readManifest, updateManifest } from '../manifest.js';
+import type { ToolResult, ToolStatus } from '../tool-result.js';
+import { setupAuthentication } from './auth.js';
+import { generateBaseComponents } from './components.js';
+import { setupDatabase } from './database.js';
+import { generateDockerfile } from './docker.js';
+import { generateReadme } from './readme.js';
+import { scaffoldProject } from './scaffold.js';
+import { setupShadcn } from './shadcn.js';
+import { validateProject } from './validate.js';
+
+// Steps run by create_full_project, in order. A step is blocked when any step it depends on failed or was blocked.
+const PIPELINE_STEPS = [
+  { name: 'scaffold_project', dependsOn: [] },
+  { name: 'setup_shadcn', dependsOn: ['scaffold_project'] },
+  { name: 'setup_database', dependsOn: ['scaffold_project'] },
+  { name: 'setup_authentication', dependsOn: ['setup_database'] },
+  { name: 'generate_base_components', dependsOn: ['setup_shadcn'] },
+  { name: 'generate_dockerfile', dependsOn: ['setup_database'] },
+  { name: 'generate_readme', dependsOn: ['scaffold_project'] },
+  {
+    name: 'validate_project',
+    dependsOn: [
+      'setup_shadcn',
+      'setup_database',
+      'setup_authentication',
+      'generate_base_components',
+      'generate_dockerfile',
+      'generate_readme',
+    ],
+  },
+] as const;
+
+export type PipelineStepName = (typeof PIPELINE_STEPS)[number]['name'];
+
+export const PIPELINE_STEP_NAMES = PIPELINE_STEPS.map((step) => step.name) as [PipelineStepName, ...PipelineStepName[]];
+
+/**
+ * Runs the full setup pipeline for a single validated config so that every step
+ * shares the same (possibly generated) project name and path
+ */
+export async function createFullProject(
+  ctx: ToolRunContext,
+  config: ProjectConfig,
+  targetPath: string,
+  resumeFrom?: PipelineStepName
+): Promise<ToolResult> {
+  const projectPath = path.join(targetPath, config.name!);
+  const startIndex = resumeFrom ? PIPELINE_STEP_NAMES.indexOf(resumeFrom) : 0;
+
+  // Resuming skips the earlier steps, so each of them must have completed in a previous run
+  if (startIndex > 0) {
+    const manifest = await readManifest(projectPath);
+    if (!manifest) {
+      return {
+        status: 'failed',
+        content: [
+          {
+            type: 'text',
+            text: `❌ Cannot resume from ${resumeFrom}: no project with a ${MANIFEST_FILENAME} manifest found at ${projectPath}. Pass the same config.name used for the original run.`,
+          },
+        ],
+      };
+    }
+
+    const incomplete = PIPELINE_STEP_NAMES.slice(0, startIndex).find((name) => {
+      const status = manifest.tools[name]?.status;
+      return status !== 'success' && status !== 'skipped';
+    });
+    if (incomplete) {
+      const recorded = manifest.tools[incomplete];
+      return {
+        status: 'failed',
+        content: [
+          {
+            type: 'text',
+            text: `❌ Cannot resume from ${resumeFrom}: ${incomplete} ${recorded ? `finished with status ${recorded.status}` : 'has not run'} according to ${MANIFEST_FILENAME}. Call create_full_project with resumeFrom: "${incomplete}" instead.`,
+          },
+        ],
+      };
+    }
+  }
+
+  const outcomes = new Map<PipelineStepName, { status: ToolStatus; detail: string }>();
+
+  for (const [index, step] of PIPELINE_STEPS.entries()) {
+    if (index < startIndex) {
+      outcomes.set(step.name, { status: 'skipped', detail: 'Completed in a previous run' });
+      continue;
+    }
+
+    const blockedBy = step.dependsOn.find((dependency) => {
+      const status = outcomes.get(dependency)?.status;
+      return status === 'failed' || status === 'blocked';
+    });
+    if (blockedBy) {
+      outcomes.set(step.name, { status: 'blocked', detail: `Not run because ${blockedBy} did not complete` });
+      continue;
+    }
+
+    logger.info(`[create_full_project] Running step ${step.name} for ${projectPath}`);
+    await ctx.reportProgress(`Step ${index + 1}/${PIPELINE_STEPS.length}: ${step.name}`, {
+      index,
+      total: PIPELINE_STEPS.length,
+    });
+    const checkpoint = ctx.journal.checkpoint();
+    const result = await runPipelineStep(ctx, step.name, config, targetPath, projectPath);
+    const { status } = result;
+    let detail = result.content.map((c) => c.text).join('\n');
+
+    if (status === 'failed' && !ctx.dryRun) {
+      const restoredCount = await ctx.journal.rollback(checkpoint);
+      if (restoredCount > 0) {
+        detail += `\n↩️ Rolled back ${restoredCount} file(s) changed by this step`;
+      }
+    }
+    outcomes.set(step.name, { status, detail });
+
+    if (!ctx.dryRun) {
+      await updateManifest(ctx, projectPath, step.name, status, config);
+    }
+    logger.info(`[create_full_project] Step ${step.name} finished with status: ${status}`);
+  }
+
+  const statusIcons: Record<ToolStatus, string> = {
+    success: '✅',
+    failed: '❌',
+    skipped: '⏭️',
+    blocked: '⛔',
+  };
+
+  const firstFailed = PIPELINE_STEP_NAMES.find((name) => outcomes.get(name)?.status === 'failed');
+  const summary = PIPELINE_STEP_NAMES.map((name, index) => {
+    const { status } = outcomes.get(name)!;
+    return `${index + 1}. ${statusIcons[status]} ${name} - ${status}`;
+  });
+  const details = PIPELINE_STEP_NAMES.map((name) => `### ${name}\n${outcomes.get(name)!.detail}`);
+
+  const header = firstFailed
+    ? `❌ Full project setup finished with failures for ${config.name} at ${projectPath}`
+    : `✅ Successfully created and set up Next.js project ${config.name} at ${projectPath}`;
+  const resumeHint = firstFailed
+    ? `\n\n[Resume]: Fix the issue above, then call create_full_project with the same config and resumeFrom: "${firstFailed}"`
+    : '';
+
+  return {
+    status: firstFailed ? 'failed' : 'success',
+    content: [
+      {
+        type: 'text',
+        text: `${header}\n\n[Steps]:\n${summary.join('\n')}${resumeHint}\n\n[Details]:\n${details.join('\n\n')}`,
+      },
+    ],
+    structuredContent: {
+      steps: Object.fromEntries(PIPELINE_STEP_NAMES.map((name) => [name, outcomes.get(name)!.status])),
+    },
+  };
+}
+
+async function runPipelineStep(
+  ctx: ToolRunContext,
+  step: PipelineStepName,
+  config: ProjectConfig,
+  targetPath: string,
+  projectPath: string
+): Promise<ToolResult> {
+  switch (step) {
+    case 'scaffold_project':
+      return scaffoldProject(ctx, config, targetPath);
+    case 'setup_shadcn':
+      return setupShadcn(ctx, config, projectPath);
+    case 'setup_database':
+      return setupDatabase(ctx, config, projectPath);
+    case 'setup_authentication':
+      return setupAuthentication(ctx, config, projectPath);
+    case 'generate_base_components':
+      return generateBaseComponents(ctx, config, projectPath);
+    case 'generate_dockerfile':
+      return generateDockerfile(ctx, config, projectPath);
+    case 'generate_readme':
+      return generateReadme(ctx, config, projectPath);
+    case 'validate_project':
+      return validateProject(ctx, config, projectPath);
+  }
+}
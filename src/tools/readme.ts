@@ -0,0 +1,43 @@
+import path from 'node:path';
+
+import type { ProjectConfig } from '../config.js';
+import { ToolRunContext } from '../context.js';
+import type { ToolResult } from '../tool-result.js';
+
+export async function generateReadme(
+  ctx: ToolRunContext,
+  config: ProjectConfig,
+  projectPath: string
+): Promise<ToolResult> {
+  try {
+    const pluginSections: string[] = [];
+    for (const plugin of ctx.plugins) {
+      const section = await plugin.readme?.(config);
+      if (section) pluginSections.push(section.trim());
+    }
+    const readme = await ctx.renderTemplate('README.md.template', config, { pluginSections });
+
+    await ctx.writeFile(path.join(projectPath, 'README.md'), readme);
+
+    return {
+      status: 'success',
+      content: [
+        {
+          type: 'text',
+          text: '✅ Generated comprehensive README.md with project documentation',
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      status: 'failed',
+      content: [
+        {
+          type: 'text',
+          text: `❌ Failed to generate README.md: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
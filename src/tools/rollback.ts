@@ -0,0 +1,44 @@
+import { ToolRunContext } from '../context.js';
+import { FileJournal } from '../journal.js';
+import { logger } from '../logger.js';
+import { updateManifest } from '../manifest.js';
+import type { ToolResult } from '../tool-result.js';
+
+export async function rollbackLastOperation(ctx: ToolRunContext, projectPath: string): Promise<ToolResult> {
+  const rollback = await FileJournal.rollbackLast(projectPath);
+
+  if (!rollback) {
+    return {
+      status: 'skipped',
+      content: [
+        {
+          type: 'text',
+          text: `No recorded operations to roll back for ${projectPath}`,
+        },
+      ],
+    };
+  }
+
+  const { operation, restored, skipped } = rollback;
+  await updateManifest(ctx, projectPath, operation.tool, 'rolled-back');
+  ctx.plan.filesModified.push(...restored);
+  const lines = [`✅ Rolled back ${operation.tool} (run at ${operation.timestamp})`];
+  lines.push(`\n[Restored or removed]:\n${restored.map((file) => `- ${file}`).join('\n') || '- (none)'}`);
+  if (skipped.length > 0) {
+    ctx.warn(`Left untouched because they changed after ${operation.tool} ran: ${skipped.join(', ')}`);
+    lines.push(
+      `\n⚠️  Left untouched because they changed after ${operation.tool} ran:\n${skipped.map((file) => `- ${file}`).join('\n')}`
+    );
+  }
+  logger.info(`Rolled back ${operation.tool} for ${projectPath}`);
+
+  return {
+    status: 'success',
+    content: [
+      {
+        type: 'text',
+        text: lines.join('\n'),
+      },
+    ],
+  };
+}
@@ -0,0 +1,509 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import type { ProjectConfig } from '../config.js';
+import { CREATE_NEXT_APP_VERSION, INSTALL_COMMAND_TIMEOUT_MS, PACKAGE_VERSIONS } from '../constants.js';
+import { ToolRunContext } from '../context.js';
+import { execCommand, getPackageRunnerDlx } from '../exec.js';
+import { logger } from '../logger.js';
+import { writeSourceFile } from '../source-files.js';
+import type { ToolResult } from '../tool-result.js';
+import { getPrismaVersion, PRISMA_ADAPTER_PACKAGES } from './database.js';
+import { getSeedScript } from './seed.js';
+
+export async function scaffoldProject(
+  ctx: ToolRunContext,
+  config: ProjectConfig,
+  targetPath: string
+): Promise<ToolResult> {
+  try {
+    const projectPath = path.join(targetPath, config.name!);
+
+    // Build create-next-app command based on configuration
+    const createCommand = buildCreateNextAppCommand(config);
+
+    // Run create-next-app
+    const result = await execCommand(ctx, createCommand, targetPath, 'create-next-app', INSTALL_COMMAND_TIMEOUT_MS);
+    if (!result.success) {
+      throw new Error(`[create-next-app failed]: ${result.error}`);
+    }
+
+    const stdout = result.output || '';
+    logger.info(`create-next-app completed successfully: ${stdout}`);
+
+    // Verify the project was created (nothing is created during a dry run)
+    if (!ctx.dryRun) {
+      await fs.access(projectPath);
+    }
+
+    // Post-process .gitignore to exclude .env.ci from being ignored
+    await updateGitignore(ctx, projectPath);
+
+    await createDirectoryStructure(ctx, config, projectPath);
+    await updatePackageJson(ctx, config, projectPath);
+    await generateNextJSCustomCode(ctx, config, projectPath);
+
+    const packageManager = config.architecture.packageManager;
+    if (!config.architecture.skipInstall) {
+      logger.info('Install not skipped: Installing dependencies as part of project scaffolding');
+      const installResult = await installDependencies(ctx, config, projectPath);
+      if (installResult.status === 'failed') {
+        ctx.warn(`Dependency installation failed: ${installResult.content[0].text}`);
+        ctx.addNextSteps(`Install dependencies: cd ${projectPath} && ${packageManager} install`);
+      }
+    } else {
+      ctx.addNextSteps(`Install dependencies: cd ${projectPath} && ${packageManager} install`);
+    }
+    ctx.addNextSteps(`Start the development server: ${packageManager} dev`);
+
+    return {
+      status: 'success',
+      content: [
+        {
+          type: 'text',
+          text: `✅ Successfully created Next.js project at ${projectPath}\n\n[Configuration]:\n${JSON.stringify(config, null, 2)}\n\n[Command executed]: ${createCommand}\n\n[Output]:\n${stdout}`,
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    return {
+      status: 'failed',
+      content: [
+        {
+          type: 'text',
+          text: `❌ Failed to create Next.js project: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
+
+async function updateGitignore(ctx: ToolRunContext, projectPath: string) {
+  const gitignorePath = path.join(projectPath, '.gitignore');
+  try {
+    let content = await ctx.readFileForUpdate(gitignorePath);
+
+    // Check if .env.ci exclusion already exists
+    if (!content.includes('!.env.ci')) {
+      // Add exclusion for .env.ci after .env* pattern
+      content = content.replace(/^(\.env\*)$/m, '$1\n!.env.ci');
+      await ctx.writeFile(gitignorePath, content);
+      logger.info('Updated .gitignore to exclude .env.ci from being ignored');
+    }
+  } catch (error) {
+    logger.warn(`Could not update .gitignore: ${error}`);
+  }
+}
+
+function buildCreateNextAppCommand(config: ProjectConfig): string {
+  const packageRunner = getPackageRunnerDlx(config.architecture.packageManager);
+  const flags = [`${packageRunner} ${CREATE_NEXT_APP_VERSION}`, `./${config.name}`];
+  logger.info(`Building create-next-app command for config: ${JSON.stringify(config)}`);
+
+  if (config.architecture.typescript) {
+    flags.push('--ts');
+  } else {
+    flags.push('--js');
+  }
+
+  if (config.architecture.reactCompiler) {
+    flags.push('--react-compiler');
+  }
+
+  if (config.architecture.packageManager === 'pnpm') {
+    flags.push('--use-pnpm');
+  } else if (config.architecture.packageManager === 'yarn') {
+    flags.push('--use-yarn');
+  } else if (config.architecture.packageManager === 'bun') {
+    flags.push('--use-bun');
+  } else {
+    flags.push('--use-npm');
+  }
+
+  // Skip dependency installation if specified [Used for tests]
+  if (config.architecture.skipInstall) {
+    flags.push('--skip-install');
+  }
+
+  // Use src directory for better organization
+  flags.push('--src-dir');
+
+  // Auto accept all prompts with defaults which are not configured
+  flags.push('--yes');
+
+  return flags.join(' ');
+}
+
+async function createDirectoryStructure(
+  ctx: ToolRunContext,
+  config: ProjectConfig,
+  projectPath: string
+): Promise<ToolResult> {
+  // Additional directories that create-next-app doesn't create
+  const additionalDirectories = ['src/components/ui', 'src/components/forms', 'src/lib', 'src/hooks'];
+
+  // Add stores directory if using external state management
+  if (config.architecture.stateManagement !== 'none') {
+    additionalDirectories.push('src/stores');
+  }
+
+  // Add database-related directories
+  if (config.architecture.database !== 'none') {
+    additionalDirectories.push('src/lib/db');
+  }
+
+  // Add auth-related directories
+  if (config.architecture.auth !== 'none') {
+    additionalDirectories.push('src/components/auth');
+  }
+
+  // Add testing-related directories
+  if (config.architecture.testing !== 'none') {
+    additionalDirectories.push('src/tests');
+  }
+
+  // Create the additional directories
+  for (const dir of additionalDirectories) {
+    try {
+      await ctx.mkdir(path.join(projectPath, dir));
+    } catch (error) {
+      // Directory might already exist, continue
+      logger.error(`Note: Directory ${dir} might already exist`, error);
+    }
+  }
+
+  return {
+    status: 'success',
+    content: [
+      {
+        type: 'text',
+        text: `✅ Created ${additionalDirectories.length} additional directories and structure`,
+      },
+    ],
+  };
+}
+
+export async function updatePackageJson(
+  ctx: ToolRunContext,
+  config: ProjectConfig,
+  projectPath: string
+): Promise<ToolResult> {
+  await ctx.reportProgress('Updating package.json scripts and dependencies');
+  try {
+    // Read the existing package.json created by create-next-app
+    const packageJsonPath = path.join(projectPath, 'package.json');
+    const existingPackageJson = JSON.parse((await ctx.readFileForUpdate(packageJsonPath)) || '{}');
+
+    // Add additional scripts
+    const additionalScripts: Record<string, string> = {
+      'docker:build': `docker build -t ${config.name} .`,
+      'docker:run': `docker run -p 3000:3000 ${config.name}`,
+      'docker:dev:up': 'docker-compose -f docker-compose.yml up',
+      'docker:dev:down': 'docker-compose -f docker-compose.yml down',
+      test: 'echo "No test command specified"',
+      'test:watch': 'echo "No test watch command specified"',
+      'test:ui': 'echo "No test UI command specified"',
+      'test:e2e': 'echo "No e2e test command specified"',
+      'test:e2e:ui': 'echo "No e2e test UI command specified"',
+    };
+
+    if (config.architecture.typescript) {
+      additionalScripts['type-check'] = 'tsc --noEmit';
+    }
+
+    if (config.architecture.testing === 'vitest') {
+      additionalScripts.test = 'vitest';
+      additionalScripts['test:watch'] = 'vitest --watch';
+      additionalScripts['test:ui'] = 'vitest --ui';
+    } else if (config.architecture.testing === 'jest') {
+      additionalScripts.test = 'jest';
+      additionalScripts['test:watch'] = 'jest --watch';
+    } else if (config.architecture.testing === 'playwright') {
+      additionalScripts['test:e2e'] = 'playwright test';
+      additionalScripts['test:e2e:ui'] = 'playwright test --ui';
+    }
+
+    // Add prebuild script for Prisma generate
+    if (config.architecture.orm === 'prisma') {
+      additionalScripts.prebuild = 'prisma generate';
+    }
+
+    // Seed script, filled in by setup_seed
+    if (config.architecture.database !== 'none') {
+      additionalScripts['db:seed'] = getSeedScript(config);
+    }
+
+    // Add additional dependencies based on architecture choices
+    const additionalDeps: Record<string, string> = {};
+    const additionalDevDeps: Record<string, string> = {};
+
+    // State Management
+    if (config.architecture.stateManagement === 'zustand') {
+      additionalDeps.zustand = PACKAGE_VERSIONS.zustand;
+    } else if (config.architecture.stateManagement === 'redux') {
+      additionalDeps['@reduxjs/toolkit'] = PACKAGE_VERSIONS['@reduxjs/toolkit'];
+      additionalDeps['react-redux'] = PACKAGE_VERSIONS['react-redux'];
+      if (config.architecture.typescript) {
+        additionalDevDeps['@types/react-redux'] = PACKAGE_VERSIONS['@types/react-redux'];
+      }
+    }
+
+    // Database + ORM
+    if (config.architecture.orm === 'prisma') {
+      const prismaVersion = getPrismaVersion(config.architecture.database);
+      for (const name of PRISMA_ADAPTER_PACKAGES[config.architecture.database] ?? []) {
+        additionalDeps[name] = PACKAGE_VERSIONS[name];
+      }
+      additionalDeps['@prisma/client'] = prismaVersion;
+      additionalDeps.dotenv = PACKAGE_VERSIONS.dotenv;
+      additionalDevDeps.prisma = prismaVersion;
+    } else if (config.architecture.orm === 'drizzle') {
+      additionalDeps['drizzle-orm'] = PACKAGE_VERSIONS['drizzle-orm'];
+      additionalDevDeps['drizzle-kit'] = PACKAGE_VERSIONS['drizzle-kit'];
+
+      if (config.architecture.database === 'postgres') {
+        additionalDeps.pg = PACKAGE_VERSIONS.pg;
+        additionalDeps.dotenv = PACKAGE_VERSIONS.dotenv;
+      }
+
+      if (config.architecture.database === 'mysql') {
+        additionalDeps.mysql2 = PACKAGE_VERSIONS.mysql2;
+      }
+
+      if (config.architecture.database === 'sqlite') {
+        additionalDeps['better-sqlite3'] = PACKAGE_VERSIONS['better-sqlite3'];
+        if (config.architecture.typescript) {
+          additionalDevDeps['@types/better-sqlite3'] = PACKAGE_VERSIONS['@types/better-sqlite3'];
+        }
+      }
+    } else if (config.architecture.orm === 'kysely') {
+      additionalDeps.kysely = PACKAGE_VERSIONS.kysely;
+      additionalDevDeps['kysely-ctl'] = PACKAGE_VERSIONS['kysely-ctl'];
+
+      if (config.architecture.database === 'postgres') {
+        additionalDeps.pg = PACKAGE_VERSIONS.pg;
+        if (config.architecture.typescript) {
+          additionalDevDeps['@types/pg'] = PACKAGE_VERSIONS['@types/pg'];
+        }
+      }
+
+      if (config.architecture.database === 'mysql') {
+        additionalDeps.mysql2 = PACKAGE_VERSIONS.mysql2;
+      }
+
+      if (config.architecture.database === 'sqlite') {
+        additionalDeps['better-sqlite3'] = PACKAGE_VERSIONS['better-sqlite3'];
+        if (config.architecture.typescript) {
+          additionalDevDeps['@types/better-sqlite3'] = PACKAGE_VERSIONS['@types/better-sqlite3'];
+        }
+      }
+    } else if (config.architecture.orm === 'mongoose') {
+      additionalDeps.mongoose = PACKAGE_VERSIONS.mongoose;
+    }
+
+    if (config.architecture.orm === 'none') {
+      if (config.architecture.database === 'postgres') {
+        additionalDeps.pg = PACKAGE_VERSIONS.pg;
+      } else if (config.architecture.database === 'mysql') {
+        additionalDeps.mysql2 = PACKAGE_VERSIONS.mysql2;
+      } else if (config.architecture.database === 'mongodb') {
+        additionalDeps.mongodb = PACKAGE_VERSIONS.mongodb;
+      } else if (config.architecture.database === 'sqlite') {
+        additionalDeps['better-sqlite3'] = PACKAGE_VERSIONS['better-sqlite3'];
+        if (config.architecture.typescript) {
+          additionalDevDeps['@types/better-sqlite3'] = PACKAGE_VERSIONS['@types/better-sqlite3'];
+        }
+      }
+    }
+
+    // The seed script runs outside Next.js, so it loads .env itself
+    if (config.architecture.database !== 'none') {
+      additionalDeps.dotenv = PACKAGE_VERSIONS.dotenv;
+      additionalDevDeps.tsx = PACKAGE_VERSIONS.tsx;
+    }
+
+    if (config.architecture.uiLibrary === 'shadcn') {
+      additionalDeps['@tanstack/react-table'] = PACKAGE_VERSIONS['@tanstack/react-table'];
+    }
+
+    // Authentication
+    if (config.architecture.auth === 'better-auth') {
+      additionalDeps['better-auth'] = PACKAGE_VERSIONS['better-auth'];
+      additionalDeps['@daveyplate/better-auth-ui'] = PACKAGE_VERSIONS['@daveyplate/better-auth-ui'];
+    }
+
+    // Testing
+    if (config.architecture.testing === 'vitest') {
+      additionalDevDeps.vitest = PACKAGE_VERSIONS.vitest;
+      additionalDevDeps['@vitejs/plugin-react'] = PACKAGE_VERSIONS['@vitejs/plugin-react'];
+      additionalDevDeps['@testing-library/react'] = PACKAGE_VERSIONS['@testing-library/react'];
+      additionalDevDeps['@testing-library/jest-dom'] = PACKAGE_VERSIONS['@testing-library/jest-dom'];
+      additionalDevDeps.jsdom = PACKAGE_VERSIONS.jsdom;
+    } else if (config.architecture.testing === 'jest') {
+      additionalDevDeps.jest = PACKAGE_VERSIONS.jest;
+      additionalDevDeps['jest-environment-jsdom'] = PACKAGE_VERSIONS['jest-environment-jsdom'];
+      additionalDevDeps['@testing-library/react'] = PACKAGE_VERSIONS['@testing-library/react'];
+      additionalDevDeps['@testing-library/jest-dom'] = PACKAGE_VERSIONS['@testing-library/jest-dom'];
+    } else if (config.architecture.testing === 'playwright') {
+      additionalDevDeps['@playwright/test'] = PACKAGE_VERSIONS['@playwright/test'];
+    }
+
+    for (const plugin of ctx.plugins) {
+      await plugin.updatePackageJson?.(
+        { scripts: additionalScripts, dependencies: additionalDeps, devDependencies: additionalDevDeps },
+        config
+      );
+    }
+
+    // Merge scripts and dependencies
+    existingPackageJson.scripts = {
+      ...existingPackageJson.scripts,
+      ...additionalScripts,
+    };
+
+    existingPackageJson.dependencies = {
+      ...existingPackageJson.dependencies,
+      ...additionalDeps,
+    };
+
+    existingPackageJson.devDependencies = {
+      ...existingPackageJson.devDependencies,
+      ...additionalDevDeps,
+    };
+
+    // Update package.json description
+    if (config.description) {
+      existingPackageJson.description = config.description;
+    }
+
+    // Write the updated package.json
+    await ctx.writeFile(packageJsonPath, JSON.stringify(existingPackageJson, null, 2));
+
+    const addedDepsCount = Object.keys(additionalDeps).length;
+    const addedDevDepsCount = Object.keys(additionalDevDeps).length;
+    const addedScriptsCount = Object.keys(additionalScripts).length;
+
+    return {
+      status: 'success',
+      content: [
+        {
+          type: 'text',
+          text: `✅ Updated package.json with:\n- ${addedDepsCount} additional dependencies\n- ${addedDevDepsCount} additional dev dependencies\n- ${addedScriptsCount} additional scripts`,
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      status: 'failed',
+      content: [
+        {
+          type: 'text',
+          text: `❌ Failed to update package.json: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
+
+async function generateNextJSCustomCode(
+  ctx: ToolRunContext,
+  config: ProjectConfig,
+  projectPath: string
+): Promise<ToolResult> {
+  try {
+    const customDirs = ['src/app/privacy', 'src/app/terms'];
+
+    for (const dir of customDirs) {
+      await ctx.mkdir(path.join(projectPath, dir));
+    }
+
+    // Read template files
+    // Define template-to-destination mappings
+    const templateMappings = [
+      { template: '.env.ci.template', destination: '.env.ci' },
+      { template: 'next.config.template', destination: 'next.config.ts' },
+      { template: 'privacy-page.tsx.template', destination: path.join('src', 'app', 'privacy', 'page.tsx') },
+      { template: 'terms-page.tsx.template', destination: path.join('src', 'app', 'terms', 'page.tsx') },
+    ];
+
+    // Render and write all template files in parallel
+    const filesCreated = await Promise.all(
+      templateMappings.map(async ({ template, destination }) => {
+        const content = await ctx.renderTemplate(template, config);
+        const sourcePath = await writeSourceFile(ctx, config, path.join(projectPath, destination), content);
+        return path.relative(projectPath, sourcePath);
+      })
+    );
+
+    return {
+      status: 'success',
+      content: [
+        {
+          type: 'text',
+          text: `✅ Generated Next.js configuration files (from templates):\n${filesCreated.map((f) => `- ${f}`).join('\n')}`,
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('Unexpected error during generateNextJSCustomCode:', errorMessage);
+    return {
+      status: 'failed',
+      content: [
+        {
+          type: 'text',
+          text: `❌ Failed to generate Next.js configuration: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
+
+async function installDependencies(
+  ctx: ToolRunContext,
+  config: ProjectConfig,
+  projectPath: string
+): Promise<ToolResult> {
+  try {
+    const installCommand = `${config.architecture.packageManager} install`;
+    const result = await execCommand(
+      ctx,
+      installCommand,
+      projectPath,
+      'install dependencies',
+      INSTALL_COMMAND_TIMEOUT_MS
+    );
+
+    if (!result.success) {
+      throw new Error(`[dependency installation failed]: ${result.error}`);
+    }
+
+    const output = result.output || '';
+    logger.info(`Dependencies installed using ${config.architecture.packageManager}: ${output}`);
+
+    return {
+      status: 'success',
+      content: [
+        {
+          type: 'text',
+          text: `Successfully installed dependencies using ${config.architecture.packageManager}\n\n[Output]:\n${output}`,
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('Unexpected error during dependency installation:', errorMessage);
+    return {
+      status: 'failed',
+      content: [
+        {
+          type: 'text',
+          text: `Failed to install dependencies: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
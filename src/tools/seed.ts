@@ -0,0 +1,151 @@
+import path from 'node:path';
+
+import type { ProjectConfig } from '../config.js';
+import { PACKAGE_VERSIONS } from '../constants.js';
+import { ToolRunContext } from '../context.js';
+import { logger } from '../logger.js';
+import { toJavaScriptPath, writeSourceFile } from '../source-files.js';
+import type { ToolResult } from '../tool-result.js';
+
+// Prisma keeps its seed next to the schema; the other ORMs keep it with the database client
+function getSeedFile(config: ProjectConfig): string {
+  return config.architecture.orm === 'prisma' ? 'prisma/seed.ts' : 'src/lib/db/seed.ts';
+}
+
+// The seed file in the project's language, as the commands that run it name it
+function getSeedSourceFile(config: ProjectConfig): string {
+  const seedFile = getSeedFile(config);
+  return config.architecture.typescript ? seedFile : toJavaScriptPath(seedFile);
+}
+
+function getSeedTemplate(config: ProjectConfig): string {
+  const { database, orm } = config.architecture;
+  return orm === 'none' ? `database/seed/direct/${database}.ts.template` : `database/seed/${orm}.ts.template`;
+}
+
+/**
+ * Command behind the db:seed script. Prisma runs the seed command configured for it, so `prisma db seed`
+ * and `prisma migrate reset` seed the same way.
+ */
+export function getSeedScript(config: ProjectConfig): string {
+  return config.architecture.orm === 'prisma' ? 'prisma db seed' : `tsx ${getSeedSourceFile(config)}`;
+}
+
+/**
+ * Registers the seed command with Prisma: in prisma.config.ts when the project has one (Prisma 7),
+ * otherwise in the "prisma" key of package.json that Prisma 6 reads.
+ * @returns Whether package.json needs the "prisma" key
+ */
+async function configurePrismaSeed(ctx: ToolRunContext, projectPath: string, seedCommand: string) {
+  const prismaConfigPath = path.join(projectPath, 'prisma.config.ts');
+  if (!ctx.exists(prismaConfigPath)) {
+    return true;
+  }
+
+  const prismaConfig = await ctx.readFile(prismaConfigPath);
+  if (/\bseed:/.test(prismaConfig)) {
+    logger.info('[prisma.config.ts skipped]: A seed command is already configured');
+    return false;
+  }
+
+  const seedEntry = `seed: "${seedCommand}",`;
+  const updatedConfig = /migrations:\s*\{/.test(prismaConfig)
+    ? prismaConfig.replace(/migrations:\s*\{/, (match) => `${match}\n    ${seedEntry}`)
+    : prismaConfig.replace(/defineConfig\(\{/, (match) => `${match}\n  migrations: {\n    ${seedEntry}\n  },`);
+  if (updatedConfig === prismaConfig) {
+    ctx.warn(`Could not find defineConfig in prisma.config.ts; add migrations.seed: "${seedCommand}" to it`);
+    return false;
+  }
+
+  await ctx.writeFile(prismaConfigPath, updatedConfig);
+  return false;
+}
+
+export async function setupSeed(
+  ctx: ToolRunContext,
+  config: ProjectConfig,
+  projectPath: string,
+  demoUser = false
+): Promise<ToolResult> {
+  if (config.architecture.database === 'none') {
+    return {
+      status: 'skipped',
+      content: [
+        {
+          type: 'text',
+          text: 'No database seed needed',
+        },
+      ],
+    };
+  }
+
+  try {
+    if (demoUser && config.architecture.auth !== 'better-auth') {
+      ctx.warn('demoUser needs auth: better-auth, so the seed does not create a demo user');
+      demoUser = false;
+    }
+
+    // Render the seed script for the ORM, or for the database driver when there is no ORM
+    const seedTemplate = await ctx.renderTemplate(getSeedTemplate(config), config, { demoUser });
+    const seedPath = path.join(projectPath, getSeedFile(config));
+    await ctx.mkdir(path.dirname(seedPath));
+    await writeSourceFile(ctx, config, seedPath, seedTemplate);
+    const seedFile = getSeedSourceFile(config);
+
+    const seedCommand = `tsx ${seedFile}`;
+    const needsPackageJsonSeed =
+      config.architecture.orm === 'prisma' && (await configurePrismaSeed(ctx, projectPath, seedCommand));
+
+    // Add the db:seed script and what the seed runs with, keeping versions the project already pins
+    const packageJsonPath = path.join(projectPath, 'package.json');
+    const packageJson = JSON.parse((await ctx.readFileForUpdate(packageJsonPath)) || '{}');
+    packageJson.scripts = { ...packageJson.scripts, 'db:seed': getSeedScript(config) };
+    packageJson.dependencies = { dotenv: PACKAGE_VERSIONS.dotenv, ...packageJson.dependencies };
+    packageJson.devDependencies = { tsx: PACKAGE_VERSIONS.tsx, ...packageJson.devDependencies };
+    if (needsPackageJsonSeed) {
+      packageJson.prisma = { ...packageJson.prisma, seed: seedCommand };
+    }
+    await ctx.writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
+
+    const runSeed = `${config.architecture.packageManager} run db:seed`;
+    const nextSteps = [
+      `Add your seed data to ${seedFile}`,
+      `Run the seed: ${runSeed}`,
+      'Seed from Docker after the migrations: SEED=true docker compose up migrate',
+    ];
+    ctx.addNextSteps(...nextSteps);
+
+    const text = `✅ Generated the database seed script
+
+Files:
+- ${seedFile}${demoUser ? ' (creates demo@example.com with the password demo-password)' : ''}
+- package.json: db:seed runs "${getSeedScript(config)}"${config.architecture.orm === 'prisma' ? `\n- Prisma runs "${seedCommand}" to seed` : ''}
+
+Next steps:
+${nextSteps.map((step, index) => `${index + 1}. ${step}`).join('\n')}`;
+
+    logger.info('Seed setup completed successfully');
+
+    return {
+      status: 'success',
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`Seed setup failed: ${errorMessage}`);
+    return {
+      status: 'failed',
+      content: [
+        {
+          type: 'text',
+          text: `Failed to set up the database seed: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
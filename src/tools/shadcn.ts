@@ -0,0 +1,153 @@
+import path from 'node:path';
+
+import type { ProjectConfig } from '../config.js';
+import { INSTALL_COMMAND_TIMEOUT_MS } from '../constants.js';
+import { ToolRunContext } from '../context.js';
+import { execCommand, getPackageRunnerDlx } from '../exec.js';
+import { logger } from '../logger.js';
+import { getSourcePath } from '../source-files.js';
+import type { ToolResult } from '../tool-result.js';
+
+export async function setupShadcn(
+  ctx: ToolRunContext,
+  config: ProjectConfig,
+  projectPath: string,
+  components?: string[]
+): Promise<ToolResult> {
+  if (config.architecture.uiLibrary !== 'shadcn') {
+    return {
+      status: 'skipped',
+      content: [
+        {
+          type: 'text',
+          text: 'Shadcn/ui setup skipped - uiLibrary is not set to "shadcn"',
+        },
+      ],
+    };
+  }
+
+  try {
+    const packageManager = config.architecture.packageManager;
+    const packageRunner = getPackageRunnerDlx(packageManager);
+    const results: string[] = [];
+    logger.info(`Initializing shadcn/ui with ${packageManager}...`);
+
+    if (config.architecture.skipInstall) {
+      results.push(`⚠️  Skipped installation of shadcn/ui components due to skipInstall flag`);
+      ctx.addNextSteps(`Run setup_shadcn with skipInstall: false to install shadcn/ui`);
+      return {
+        status: 'skipped',
+        content: [
+          {
+            type: 'text',
+            text: results.join('\n'),
+          },
+        ],
+      };
+    }
+
+    // Step 1: Initialize shadcn/ui with default configuration
+    try {
+      const shadcnInitCommand = `${packageRunner} shadcn@latest init -y -d`;
+      const result = await execCommand(ctx, shadcnInitCommand, projectPath, 'shadcn init');
+
+      if (!result.success) {
+        throw new Error(`[shadcn init failed]: ${result.error}`);
+      }
+
+      results.push(`✅ Initialized shadcn/ui with default configuration using ${packageManager}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error('Failed to initialize shadcn/ui:', errorMessage);
+      return {
+        status: 'failed',
+        content: [
+          {
+            type: 'text',
+            text: `❌ Failed to initialize shadcn/ui: ${errorMessage}`,
+          },
+        ],
+      };
+    }
+
+    // Step 2: Install the requested shadcn/ui components, or all of them using the --all flag
+    const componentList = components ? components.join(' ') : 'all';
+    const hasComponent = (component: string) => !components || components.includes(component);
+    logger.info(`Installing shadcn/ui components (${componentList}) with ${packageManager}...`);
+    try {
+      const shadcnAddCommand = `${packageRunner} shadcn@latest add ${components ? components.join(' ') : '--all'} -y -o`;
+      const commandLabel = components ? 'shadcn add' : 'shadcn add all';
+      const result = await execCommand(ctx, shadcnAddCommand, projectPath, commandLabel, INSTALL_COMMAND_TIMEOUT_MS);
+
+      if (!result.success) {
+        throw new Error(`[${commandLabel} failed]: ${result.error}`);
+      }
+
+      results.push(
+        components
+          ? `✅ Successfully installed shadcn/ui components: ${components.join(', ')}`
+          : `✅ Successfully installed all shadcn/ui components`
+      );
+      logger.info(`shadcn/ui add ${componentList} executed successfully`);
+
+      const globalsCssPath = path.join(projectPath, 'src/app/globals.css');
+      const originalGlobalsCss = await ctx.readFileForUpdate(globalsCssPath);
+      let globalsCss = originalGlobalsCss;
+
+      if (hasComponent('chart') && !globalsCss.includes('--chart-1: oklch(0.646 0.222 41.116)')) {
+        globalsCss = `${globalsCss}\n${await ctx.renderTemplate('shadcn/chart.css.template', config)}`;
+      }
+
+      if (hasComponent('sidebar') && !globalsCss.includes('--sidebar: oklch(0.985 0 0);')) {
+        globalsCss = `${globalsCss}\n${await ctx.renderTemplate('shadcn/sidebar.css.template', config)}`;
+      }
+
+      if (globalsCss !== originalGlobalsCss) {
+        await ctx.writeFile(globalsCssPath, globalsCss);
+      }
+
+      const layoutPath = getSourcePath(ctx, config, path.join(projectPath, 'src/app/layout.tsx'));
+      let layoutContent = await ctx.readFileForUpdate(layoutPath);
+      if (hasComponent('sonner') && !layoutContent.includes('Toaster')) {
+        // Add import at the top
+        const importStatement = `import { Toaster } from "@/components/ui/sonner";\n`;
+        layoutContent = layoutContent.replace(/^(import.*\n)*/, (match) => match + importStatement);
+
+        // Add Toaster component after children
+        layoutContent = layoutContent.replace(/<body[^>]*>([\s\S]*?)<\/body>/, (match, content) =>
+          match.replace(content, `${content}  <Toaster position="top-center" />\n      `)
+        );
+
+        await ctx.writeFile(layoutPath, layoutContent);
+      }
+      logger.info(`Updated globals.css and ${path.basename(layoutPath)} for shadcn/ui`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error('Failed to install shadcn/ui components:', errorMessage);
+      results.push(`⚠️  Failed to install ${componentList} components: ${errorMessage}`);
+      ctx.warn(`Failed to install ${componentList} shadcn/ui components: ${errorMessage}`);
+    }
+
+    return {
+      status: 'success',
+      content: [
+        {
+          type: 'text',
+          text: results.join('\n'),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('Unexpected error during shadcn/ui setup:', errorMessage);
+    return {
+      status: 'failed',
+      content: [
+        {
+          type: 'text',
+          text: `❌ Failed to set up shadcn/ui: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
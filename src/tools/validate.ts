@@ -0,0 +1,61 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import type { ProjectConfig } from '../config.js';
+import { ToolRunContext } from '../context.js';
+import { execCommand } from '../exec.js';
+import type { ToolResult, ToolStatus } from '../tool-result.js';
+
+export async function validateProject(
+  ctx: ToolRunContext,
+  config: ProjectConfig,
+  projectPath: string
+): Promise<ToolResult> {
+  const validationResults = [];
+  let status: ToolStatus = 'success';
+
+  try {
+    // Check that package.json, the Next.js config and the TypeScript (or JavaScript) config exist.
+    // A dry run only plans the build, since earlier planned steps never created these files.
+    const projectFiles = config.architecture.typescript
+      ? ['package.json', 'next.config.ts', 'tsconfig.json']
+      : ['package.json', 'next.config.mjs', 'jsconfig.json'];
+    for (const file of projectFiles) {
+      if (!ctx.dryRun) {
+        await fs.access(path.join(projectPath, file));
+      }
+      validationResults.push(`✅ ${file} exists`);
+    }
+
+    // Attempt to build the project unless skipped
+    if (!config.architecture.skipInstall) {
+      const runBuildCommand = `${config.architecture.packageManager} run build`;
+      const result = await execCommand(ctx, runBuildCommand, projectPath, 'validate build');
+
+      if (!result.success) {
+        throw new Error(`[validate build failed]: ${result.error}`);
+      }
+
+      validationResults.push('✅ Project builds successfully');
+    } else {
+      validationResults.push(`⚠️ Build validation skipped (skipInstall is true)`);
+      ctx.warn('Build validation skipped because skipInstall is true');
+    }
+
+    validationResults.push('✅ Project validation completed successfully');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    validationResults.push(`❌ Validation failed: ${errorMessage}`);
+    status = 'failed';
+  }
+
+  return {
+    status,
+    content: [
+      {
+        type: 'text',
+        text: validationResults.join('\n'),
+      },
+    ],
+  };
+}
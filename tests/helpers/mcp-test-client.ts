@@ -1,32 +1,58 @@
+import { pathToFileURL } from 'node:url';
+
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { getDefaultEnvironment, StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ListRootsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 
 /**
  * MCP Test Client for integration testing
  */
 export class MCPTestClient {
   private client: Client;
-  private transport: StdioClientTransport | null = null;
+  private transport: Transport | null = null;
 
-  constructor() {
+  /**
+   * @param roots Directories to report as MCP roots; the client declares no roots capability when omitted
+   */
+  constructor(roots?: string[]) {
     this.client = new Client(
       {
         name: 'test-client',
         version: '1.0.0',
       },
       {
-        capabilities: {},
+        capabilities: roots ? { roots: { listChanged: true } } : {},
       }
     );
+
+    if (roots) {
+      this.client.setRequestHandler(ListRootsRequestSchema, async () => ({
+        roots: roots.map((root) => ({ uri: pathToFileURL(root).href })),
+      }));
+    }
   }
 
   /**
    * Connect to the MCP server
    */
-  async connect(serverPath: string): Promise<void> {
+  async connect(serverPath: string, options?: { args?: string[]; env?: Record<string, string> }): Promise<void> {
     this.transport = new StdioClientTransport({
       command: 'node',
-      args: [serverPath],
+      args: [serverPath, ...(options?.args ?? [])],
+      env: options?.env ? { ...getDefaultEnvironment(), ...options.env } : undefined,
+    });
+
+    await this.client.connect(this.transport);
+  }
+
+  /**
+   * Connect to an MCP server running with the HTTP transport
+   */
+  async connectHttp(url: string, token?: string): Promise<void> {
+    this.transport = new StreamableHTTPClientTransport(new URL(url), {
+      requestInit: token ? { headers: { Authorization: `Bearer ${token}` } } : undefined,
     });
 
     await this.client.connect(this.transport);
@@ -52,8 +78,53 @@ export class MCPTestClient {
   /**
    * Call a tool
    */
-  async callTool(name: string, args: Record<string, unknown>) {
-    return this.client.callTool({ name, arguments: args });
+  async callTool(name: string, args: Record<string, unknown>, options?: { signal?: AbortSignal }) {
+    return this.client.callTool({ name, arguments: args }, undefined, options);
+  }
+
+  /**
+   * Call a tool with a progress token and collect the progress notifications it sends
+   */
+  async callToolWithProgress(name: string, args: Record<string, unknown>) {
+    const progress: Array<{ progress: number; total?: number; message?: string }> = [];
+    const result = await this.client.callTool({ name, arguments: args }, undefined, {
+      onprogress: (notification) => {
+        progress.push(notification);
+      },
+    });
+    return { result, progress };
+  }
+
+  /**
+   * List all available resources
+   */
+  async listResources() {
+    return this.client.listResources();
+  }
+
+  /**
+   * Read a resource and return its text
+   */
+  async readResource(uri: string): Promise<string> {
+    const result = await this.client.readResource({ uri });
+    const content = result.contents[0];
+    return content && 'text' in content ? content.text : '';
+  }
+
+  /**
+   * List all available prompts
+   */
+  async listPrompts() {
+    return this.client.listPrompts();
+  }
+
+  /**
+   * Get a prompt and return the text of its first message
+   */
+  async getPrompt(name: string, args: Record<string, string>): Promise<string> {
+    const result = await this.client.getPrompt({ name, arguments: args });
+    const content = result.messages[0]?.content;
+    return content && content.type === 'text' ? content.text : '';
   }
 
   /**
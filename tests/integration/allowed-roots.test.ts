@@ -0,0 +1,123 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+
+import { MCPTestClient } from '../helpers/mcp-test-client.js';
+import { cleanupTempDir, createMockConfig, createTempDir, fileExists, readFile } from '../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('Allowed roots', () => {
+  let client: MCPTestClient;
+  let tempDir: string;
+  let allowedRoot: string;
+  let outsideDir: string;
+  const serverPath = path.join(__dirname, '../../dist/cli.js');
+  const config = createMockConfig({ name: 'roots-project' });
+
+  beforeAll(async () => {
+    tempDir = await createTempDir();
+    allowedRoot = path.join(tempDir, 'allowed');
+    outsideDir = path.join(tempDir, 'outside');
+    await fs.mkdir(allowedRoot);
+    await fs.mkdir(outsideDir);
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+  });
+
+  afterAll(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  describe('from NEXT_MCP_ALLOWED_ROOTS', () => {
+    const connect = async () => {
+      client = new MCPTestClient();
+      await client.connect(serverPath, { env: { NEXT_MCP_ALLOWED_ROOTS: allowedRoot } });
+    };
+
+    it('should allow paths inside the root', async () => {
+      await connect();
+      const projectPath = path.join(allowedRoot, 'inside');
+      await fs.mkdir(projectPath);
+
+      const result = await client.callTool('generate_readme', { config, projectPath });
+
+      expect(client.isSuccess(result)).toBe(true);
+      expect(await fileExists(path.join(projectPath, 'README.md'))).toBe(true);
+    });
+
+    it('should reject path traversal out of the root', async () => {
+      await connect();
+      const projectPath = path.join(allowedRoot, '..', 'outside');
+
+      const result = await client.callTool('generate_readme', { config, projectPath });
+
+      expect(client.getTextContent(result)).toContain(`Access denied: ${outsideDir} is outside the allowed roots`);
+      expect(await fileExists(path.join(outsideDir, 'README.md'))).toBe(false);
+    });
+
+    it('should reject a project path that is a symlink escaping the root', async () => {
+      await connect();
+      const linkPath = path.join(allowedRoot, 'linked-project');
+      await fs.symlink(outsideDir, linkPath);
+
+      const result = await client.callTool('setup_database', { config, projectPath: linkPath });
+
+      expect(client.getTextContent(result)).toContain(`(resolves to ${outsideDir})`);
+      expect(await fileExists(path.join(outsideDir, '.env'))).toBe(false);
+    });
+
+    it('should refuse to write through a symlinked file inside the project', async () => {
+      await connect();
+      const projectPath = path.join(allowedRoot, 'symlinked-readme');
+      const outsideReadme = path.join(outsideDir, 'README.md');
+      await fs.mkdir(projectPath);
+      await fs.writeFile(outsideReadme, 'original\n');
+      await fs.symlink(outsideReadme, path.join(projectPath, 'README.md'));
+
+      const result = await client.callTool('generate_readme', { config, projectPath });
+
+      expect(client.isSuccess(result)).toBe(false);
+      expect(client.getTextContent(result)).toContain('is outside the allowed roots');
+      expect(await readFile(outsideReadme)).toBe('original\n');
+    });
+
+    it('should apply to tools that do not take a config', async () => {
+      await connect();
+
+      const result = await client.callTool('detect_project_config', { projectPath: outsideDir, writeManifest: true });
+
+      expect(client.getTextContent(result)).toContain('Access denied');
+      expect(await fileExists(path.join(outsideDir, '.next-mcp.json'))).toBe(false);
+    });
+  });
+
+  describe('from MCP roots', () => {
+    it('should only allow the roots reported by the client', async () => {
+      client = new MCPTestClient([allowedRoot]);
+      await client.connect(serverPath);
+
+      const projectPath = path.join(allowedRoot, 'client-root');
+      await fs.mkdir(projectPath);
+      const inside = await client.callTool('generate_readme', { config, projectPath });
+      expect(client.isSuccess(inside)).toBe(true);
+
+      const outside = await client.callTool('generate_readme', { config, projectPath: outsideDir });
+      expect(client.getTextContent(outside)).toContain('is outside the allowed roots');
+    });
+
+    it('should not let client roots widen the configured roots', async () => {
+      client = new MCPTestClient([tempDir]);
+      await client.connect(serverPath, { args: ['--allowed-root', allowedRoot] });
+
+      const result = await client.callTool('generate_readme', { config, projectPath: outsideDir });
+
+      expect(client.getTextContent(result)).toContain(`outside the allowed roots: ${allowedRoot}.`);
+    });
+  });
+});
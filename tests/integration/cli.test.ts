@@ -0,0 +1,150 @@
+import { spawn } from 'node:child_process';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import {
+  cleanupTempDir,
+  createMockConfig,
+  createPackageJson,
+  createTempDir,
+  fileExists,
+  readFile,
+} from '../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('Command-line mode', () => {
+  let tempDir: string;
+  const cliPath = path.join(__dirname, '../../dist/cli.js');
+
+  beforeAll(async () => {
+    tempDir = await createTempDir();
+  });
+
+  afterAll(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  const runCli = (args: string[], input = '') =>
+    new Promise<{ code: number | null; stdout: string; stderr: string }>((resolve, reject) => {
+      const child = spawn('node', [cliPath, ...args], { cwd: tempDir, timeout: 60000 });
+      let stdout = '';
+      let stderr = '';
+      child.stdout.on('data', (chunk: Buffer) => (stdout += chunk.toString()));
+      child.stderr.on('data', (chunk: Buffer) => (stderr += chunk.toString()));
+      child.on('error', reject);
+      child.on('close', (code) => resolve({ code, stdout, stderr }));
+      child.stdin.end(input);
+    });
+
+  const writeConfig = async (fileName: string, config: unknown) => {
+    const configPath = path.join(tempDir, fileName);
+    await fs.writeFile(configPath, JSON.stringify(config));
+    return configPath;
+  };
+
+  it('should list the commands', async () => {
+    const { code, stdout } = await runCli(['--help']);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain('next-mcp <command> [options]');
+    expect(stdout).toMatch(/scaffold\s+Create a new Next.js project/);
+    expect(stdout).toMatch(/setup-database\s+Generate database configuration/);
+    expect(stdout).toContain('init');
+  });
+
+  it('should run a tool with a config file', async () => {
+    const projectPath = path.join(tempDir, 'readme-project');
+    await fs.mkdir(projectPath);
+    await createPackageJson(projectPath);
+    const configPath = await writeConfig('readme.json', createMockConfig({ name: 'cli-readme' }));
+
+    const { code, stdout } = await runCli(['generate-readme', '--config', configPath, '--project-path', projectPath]);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain('README.md');
+    expect(await readFile(path.join(projectPath, 'README.md'))).toContain('# cli-readme');
+  });
+
+  it('should print the structured result as JSON', async () => {
+    const projectPath = path.join(tempDir, 'docker-project');
+    await fs.mkdir(projectPath);
+    const config = JSON.stringify(createMockConfig({ name: 'cli-docker' }));
+
+    const { code, stdout } = await runCli([
+      'generate-dockerfile',
+      '--config',
+      config,
+      '--project-path',
+      projectPath,
+      '--base-image',
+      'node:24-bookworm-slim',
+      '--dry-run',
+      '--json',
+    ]);
+
+    expect(code).toBe(0);
+    const output = JSON.parse(stdout);
+    expect(output).toMatchObject({ tool: 'generate_dockerfile', status: 'success', dryRun: true });
+    expect(output.filesCreated).toContain(path.join(projectPath, 'Dockerfile'));
+    expect(await fileExists(path.join(projectPath, 'Dockerfile'))).toBe(false);
+  });
+
+  it('should exit with an error for a failed or invalid run', async () => {
+    const configPath = await writeConfig('invalid.json', {
+      name: 'cli-invalid',
+      architecture: { database: 'mongodb', orm: 'drizzle' },
+    });
+
+    const check = await runCli(['check-config', '--config', configPath]);
+    expect(check.code).toBe(1);
+    expect(check.stderr).toContain('drizzle does not support mongodb');
+
+    const missing = await runCli(['validate', '--config', path.join(tempDir, 'missing.json')]);
+    expect(missing.code).toBe(1);
+    expect(missing.stderr).toContain('Cannot read config file');
+
+    const unknown = await runCli(['deploy']);
+    expect(unknown.code).toBe(1);
+    expect(unknown.stderr).toContain('Unknown command "deploy"');
+  });
+
+  it('should ask for a config in init and save it', async () => {
+    // Name, description, preset, then the ten architecture fields with database and orm changed
+    const answers = [
+      'wizard-app',
+      '',
+      'none',
+      ...['', '', '', '', 'sqlite', 'drizzle', 'none', 'none', '', ''],
+      tempDir,
+      'n',
+      'stack.json',
+    ];
+
+    const { code, stdout } = await runCli(['init', '--dry-run'], answers.join('\n') + '\n');
+
+    expect(code).toBe(0);
+    expect(stdout).toContain('Dry run of scaffold_project');
+    expect(stdout).toContain(path.join(tempDir, 'wizard-app'));
+    const saved = JSON.parse(await readFile(path.join(tempDir, 'stack.json')));
+    expect(saved).toMatchObject({
+      name: 'wizard-app',
+      architecture: { database: 'sqlite', orm: 'drizzle', auth: 'none', uiLibrary: 'none' },
+    });
+    expect(await fileExists(path.join(tempDir, 'wizard-app'))).toBe(false);
+  });
+
+  it('should ask again when the answers do not fit together', async () => {
+    const answers = ['conflict-app', '', 'none', ...['', '', '', '', 'mongodb', 'drizzle', '', '', '', '']];
+
+    const { code, stdout } = await runCli(['init', '--dry-run'], answers.join('\n') + '\n');
+
+    expect(code).toBe(1);
+    expect(stdout).toContain('drizzle does not support mongodb');
+    expect(stdout).toContain('Answer the questions again');
+  });
+});
@@ -0,0 +1,92 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { MCPTestClient } from '../helpers/mcp-test-client.js';
+import { cleanupTempDir, createMockConfig, createTempDir, fileExists, readFile } from '../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('Shell commands', () => {
+  let client: MCPTestClient;
+  let tempDir: string;
+  const serverPath = path.join(__dirname, '../../dist/cli.js');
+  const config = createMockConfig({
+    name: 'commands-project',
+    architecture: { packageManager: 'npm', skipInstall: false },
+  });
+
+  beforeAll(async () => {
+    client = new MCPTestClient();
+    await client.connect(serverPath);
+    tempDir = await createTempDir();
+  }, 30000);
+
+  afterAll(async () => {
+    await client.disconnect();
+    await cleanupTempDir(tempDir);
+  });
+
+  const createProject = async (name: string, buildScript: string) => {
+    const projectPath = path.join(tempDir, name);
+    await fs.mkdir(projectPath, { recursive: true });
+    await fs.writeFile(
+      path.join(projectPath, 'package.json'),
+      JSON.stringify({ name, scripts: { build: buildScript } })
+    );
+    await fs.writeFile(path.join(projectPath, 'next.config.ts'), 'export default {};\n');
+    await fs.writeFile(path.join(projectPath, 'tsconfig.json'), '{}');
+    return projectPath;
+  };
+
+  const isRunning = (pid: number) => {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const waitFor = async (condition: () => Promise<boolean>, timeoutMs = 10000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!(await condition())) {
+      if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  };
+
+  it('should report the exit code and the last lines of output when a command fails', async () => {
+    const projectPath = await createProject('failing-build', 'echo compiling pages && exit 3');
+
+    const result = await client.callTool('validate_project', { config, projectPath });
+
+    const text = client.getTextContent(result);
+    expect(text).toContain('[validate build failed]: exited with code 3');
+    expect(text).toContain('[Partial output]:');
+    expect(text).toContain('compiling pages');
+  }, 30000);
+
+  it('should keep answering requests while a command runs and kill it when cancelled', async () => {
+    const projectPath = await createProject('slow-build', 'echo $$ > build.pid && sleep 60');
+    const pidFile = path.join(projectPath, 'build.pid');
+    const controller = new AbortController();
+
+    const call = client.callTool('validate_project', { config, projectPath }, { signal: controller.signal });
+    await waitFor(() => fileExists(pidFile));
+    const pid = Number((await readFile(pidFile)).trim());
+
+    const { tools } = await client.listTools();
+    expect(tools.length).toBeGreaterThan(0);
+    expect(isRunning(pid)).toBe(true);
+
+    controller.abort();
+    await expect(call).rejects.toThrow();
+
+    await waitFor(async () => !isRunning(pid));
+    expect(isRunning(pid)).toBe(false);
+  }, 30000);
+});
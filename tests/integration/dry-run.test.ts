@@ -0,0 +1,101 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { MCPTestClient } from '../helpers/mcp-test-client.js';
+import {
+  cleanupTempDir,
+  createMockConfig,
+  createPackageJson,
+  createTempDir,
+  dirExists,
+  fileExists,
+  readFile,
+} from '../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('Dry run mode', () => {
+  let client: MCPTestClient;
+  let tempDir: string;
+  const serverPath = path.join(__dirname, '../../dist/cli.js');
+
+  beforeAll(async () => {
+    client = new MCPTestClient();
+    await client.connect(serverPath);
+    tempDir = await createTempDir();
+  }, 30000);
+
+  afterAll(async () => {
+    await client.disconnect();
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should plan scaffold_project without creating the project', async () => {
+    const config = createMockConfig({
+      name: 'dry-run-scaffold',
+      architecture: { database: 'postgres', orm: 'drizzle' },
+    });
+
+    const result = await client.callTool('scaffold_project', { config, targetPath: tempDir, dryRun: true });
+
+    expect(client.isSuccess(result)).toBe(true);
+
+    const text = client.getTextContent(result);
+    expect(text).toContain('Dry run of scaffold_project - no changes were made');
+    expect(text).toContain('create-next-app@^16 ./dry-run-scaffold');
+    expect(text).toContain(path.join(tempDir, 'dry-run-scaffold', 'next.config.ts'));
+    expect(text).toContain('+ dependencies.drizzle-orm');
+    expect(text).toContain('+ scripts.type-check: tsc --noEmit');
+
+    expect(await dirExists(path.join(tempDir, 'dry-run-scaffold'))).toBe(false);
+  });
+
+  it('should report .env keys and files for setup_database without writing them', async () => {
+    const projectPath = path.join(tempDir, 'dry-run-database');
+    await fs.mkdir(projectPath, { recursive: true });
+    await createPackageJson(projectPath);
+    await fs.writeFile(path.join(projectPath, '.env'), 'DATABASE_URL="postgresql://old"\n');
+
+    const config = createMockConfig({
+      name: 'dry-run-database',
+      architecture: { database: 'mysql', orm: 'drizzle' },
+    });
+
+    const result = await client.callTool('setup_database', { config, projectPath, dryRun: true });
+
+    expect(client.isSuccess(result)).toBe(true);
+
+    const text = client.getTextContent(result);
+    expect(text).toContain(`${path.join(projectPath, '.env')}: DATABASE_URL`);
+    expect(text).toContain(`${path.join(projectPath, '.env.local')}: DATABASE_URL`);
+    expect(text).toContain(path.join(projectPath, 'drizzle.config.ts'));
+    expect(text).toMatch(/\[Files to overwrite\]:\n- .*\.env\n/);
+
+    expect(await readFile(path.join(projectPath, '.env'))).toBe('DATABASE_URL="postgresql://old"\n');
+    expect(await fileExists(path.join(projectPath, 'drizzle.config.ts'))).toBe(false);
+    expect(await dirExists(path.join(projectPath, 'src'))).toBe(false);
+  });
+
+  it('should plan the whole pipeline for create_full_project', async () => {
+    const config = createMockConfig({
+      name: 'dry-run-full',
+      architecture: { database: 'sqlite', orm: 'drizzle', auth: 'better-auth', uiLibrary: 'none' },
+    });
+
+    const result = await client.callTool('create_full_project', { config, targetPath: tempDir, dryRun: true });
+
+    expect(client.isSuccess(result)).toBe(true);
+
+    const text = client.getTextContent(result);
+    expect(text).toContain('Dry run of create_full_project - no changes were made');
+    expect(text).toContain(path.join(tempDir, 'dry-run-full', 'src', 'lib', 'auth.ts'));
+    expect(text).toContain(path.join(tempDir, 'dry-run-full', 'docker-compose.yml'));
+    expect(text).toContain('BETTER_AUTH_SECRET');
+
+    expect(await dirExists(path.join(tempDir, 'dry-run-full'))).toBe(false);
+  });
+});
@@ -0,0 +1,190 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { runHttpServer } from '../../src/index.js';
+import { MCPTestClient } from '../helpers/mcp-test-client.js';
+import { cleanupTempDir, createMockConfig, createTempDir, fileExists } from '../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('HTTP transport', () => {
+  let serverProcess: ChildProcess;
+  let url: string;
+  let tempDir: string;
+  let allowedRoot: string;
+  const serverPath = path.join(__dirname, '../../dist/cli.js');
+  const token = 'test-token';
+
+  beforeAll(async () => {
+    tempDir = await createTempDir();
+    allowedRoot = path.join(tempDir, 'allowed');
+    await fs.mkdir(allowedRoot);
+
+    serverProcess = spawn('node', [serverPath, '--transport', 'http', '--port', '0', '--allowed-root', allowedRoot], {
+      env: { ...process.env, NEXT_MCP_AUTH_TOKEN: token },
+      stdio: ['ignore', 'pipe', 'inherit'],
+    });
+
+    url = await new Promise<string>((resolve, reject) => {
+      serverProcess.stdout!.on('data', (chunk: Buffer) => {
+        const match = chunk.toString().match(/listening on (\S+)/);
+        if (match) resolve(match[1]);
+      });
+      serverProcess.on('exit', (code) => reject(new Error(`Server exited with code ${code}`)));
+    });
+  }, 30000);
+
+  afterAll(async () => {
+    serverProcess.kill();
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should reject requests without the bearer token', async () => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+  });
+
+  it('should reject requests for an unknown session', async () => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'mcp-session-id': 'unknown-session',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should answer malformed JSON with a parse error', async () => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: '{"jsonrpc": "2.0",',
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe(-32700);
+  });
+
+  it('should serve several clients with separate sessions', async () => {
+    const first = new MCPTestClient();
+    const second = new MCPTestClient();
+    await first.connectHttp(url, token);
+    await second.connectHttp(url, token);
+
+    try {
+      const [firstTools, secondTools] = await Promise.all([first.listTools(), second.listTools()]);
+      expect(firstTools.tools.map((tool) => tool.name)).toContain('scaffold_project');
+      expect(secondTools.tools).toEqual(firstTools.tools);
+    } finally {
+      await first.disconnect();
+      await second.disconnect();
+    }
+  });
+
+  it('should only write inside the allowed roots', async () => {
+    const client = new MCPTestClient();
+    await client.connectHttp(url, token);
+
+    try {
+      const config = createMockConfig({ name: 'http-project' });
+
+      const allowed = await client.callTool('generate_readme', { config, projectPath: allowedRoot });
+      expect(client.isSuccess(allowed)).toBe(true);
+      expect(await fileExists(path.join(allowedRoot, 'README.md'))).toBe(true);
+
+      const outsidePath = path.join(tempDir, 'outside');
+      await fs.mkdir(outsidePath);
+      const outside = await client.callTool('generate_readme', { config, projectPath: outsidePath });
+      expect(client.getTextContent(outside)).toContain('Access denied');
+      expect(client.getTextContent(outside)).toContain('is outside the allowed roots');
+      expect(await fileExists(path.join(outsidePath, 'README.md'))).toBe(false);
+    } finally {
+      await client.disconnect();
+    }
+  });
+});
+
+describe('runHttpServer', () => {
+  it('should reject when the port cannot be used and close on request', async () => {
+    const handle = await runHttpServer({ host: '127.0.0.1', port: 0 });
+    const { port } = handle.server.address() as { port: number };
+
+    await expect(runHttpServer({ host: '127.0.0.1', port })).rejects.toThrow('EADDRINUSE');
+
+    await handle.close();
+    expect(handle.server.listening).toBe(false);
+  });
+
+  it('should refuse request bodies over the size limit', async () => {
+    const handle = await runHttpServer({ host: '127.0.0.1', port: 0 });
+
+    try {
+      const response = await fetch(handle.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'tools/list',
+          params: { padding: 'x'.repeat(1024 * 1024) },
+        }),
+      });
+
+      expect(response.status).toBe(413);
+    } finally {
+      await handle.close();
+    }
+  });
+
+  it('should close sessions that stay idle', async () => {
+    const handle = await runHttpServer({ host: '127.0.0.1', port: 0, sessionIdleTimeoutMs: 100 });
+    const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+
+    try {
+      const initialize = await fetch(handle.url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'initialize',
+          params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+        }),
+      });
+      await initialize.text();
+      const sessionId = initialize.headers.get('mcp-session-id')!;
+      expect(sessionId).toBeTruthy();
+
+      await new Promise((resolve) => setTimeout(resolve, 300));
+
+      const response = await fetch(handle.url, {
+        method: 'POST',
+        headers: { ...headers, 'mcp-session-id': sessionId },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+      });
+      expect(response.status).toBe(400);
+    } finally {
+      await handle.close();
+    }
+  });
+});
@@ -0,0 +1,83 @@
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import details from '../../package.json' with { type: 'json' };
+import { MCPTestClient } from '../helpers/mcp-test-client.js';
+import { cleanupTempDir, createMockConfig, createTempDir, fileExists, readFile } from '../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('Project manifest (.next-mcp.json)', () => {
+  let client: MCPTestClient;
+  let tempDir: string;
+  const serverPath = path.join(__dirname, '../../dist/cli.js');
+  const projectName = 'manifest-project';
+
+  beforeAll(async () => {
+    client = new MCPTestClient();
+    await client.connect(serverPath);
+    tempDir = await createTempDir();
+  }, 30000);
+
+  afterAll(async () => {
+    await client.disconnect();
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should be written by scaffold_project', async () => {
+    const projectPath = path.join(tempDir, projectName);
+    const config = createMockConfig({
+      name: projectName,
+      architecture: { database: 'sqlite', orm: 'drizzle', auth: 'none', uiLibrary: 'none' },
+    });
+
+    await client.callTool('scaffold_project', { config, targetPath: tempDir });
+
+    const manifest = JSON.parse(await readFile(path.join(projectPath, '.next-mcp.json')));
+    expect(manifest.version).toBe(details.version);
+    expect(manifest.config.name).toBe(projectName);
+    expect(manifest.config.architecture.orm).toBe('drizzle');
+    expect(manifest.tools.scaffold_project.status).toBe('success');
+
+    const nextConfig = await readFile(path.join(projectPath, 'next.config.ts'));
+    expect(manifest.files['next.config.ts']).toBe(createHash('sha256').update(nextConfig).digest('hex'));
+  });
+
+  it('should provide the config to later tools when it is omitted', async () => {
+    const projectPath = path.join(tempDir, projectName);
+
+    const result = await client.callTool('setup_database', { projectPath });
+
+    expect(client.isSuccess(result)).toBe(true);
+    expect(client.getTextContent(result)).toContain('ORM: drizzle');
+    expect(await fileExists(path.join(projectPath, 'drizzle.config.ts'))).toBe(true);
+
+    const manifest = JSON.parse(await readFile(path.join(projectPath, '.next-mcp.json')));
+    expect(manifest.tools.setup_database.status).toBe('success');
+    expect(manifest.files['drizzle.config.ts']).toBeDefined();
+    expect(manifest.files[path.join('src', 'lib', 'db', 'schema.ts')]).toBeDefined();
+  });
+
+  it('should mark rolled back operations', async () => {
+    const projectPath = path.join(tempDir, projectName);
+
+    await client.callTool('rollback_last_operation', { projectPath });
+
+    const manifest = JSON.parse(await readFile(path.join(projectPath, '.next-mcp.json')));
+    expect(manifest.tools.setup_database.status).toBe('rolled-back');
+  });
+
+  it('should fail clearly without a config or manifest', async () => {
+    const projectPath = path.join(tempDir, 'no-manifest');
+    await fs.mkdir(projectPath, { recursive: true });
+
+    const result = await client.callTool('generate_readme', { projectPath });
+
+    expect(client.getTextContent(result)).toContain('No config provided and no .next-mcp.json manifest found');
+  });
+});
@@ -0,0 +1,215 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+
+import { MCPTestClient } from '../helpers/mcp-test-client.js';
+import { cleanupTempDir, createPackageJson, createTempDir, fileExists, readFile } from '../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const PLUGIN_SOURCE = `
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+export default ({ z }) => ({
+  name: 'kysely',
+  architecture: { orm: ['kysely'] },
+  ormDatabases: { kysely: ['postgres', 'mysql', 'sqlite'] },
+  templatesDir: path.join(path.dirname(fileURLToPath(import.meta.url)), 'templates'),
+  tools: [
+    {
+      name: 'generate_kysely_db',
+      description: 'Generate a Kysely database interface',
+      input: { tables: z.array(z.string()).min(1).describe('Tables in the database interface') },
+      async run(context, input) {
+        const content = await context.renderTemplate('kysely/db.ts.template', { tables: input.tables });
+        const written = await context.writeSourceFile('src/lib/db/kysely.ts', content);
+        return '✅ Generated ' + path.relative(context.projectPath, written);
+      },
+    },
+    {
+      name: 'broken_generator',
+      description: 'Writes a file, then fails',
+      async run(context) {
+        await context.writeFile('src/lib/db/partial.ts', 'export {};\\n');
+        throw new Error('generator exploded');
+      },
+    },
+  ],
+  updatePackageJson(additions, config) {
+    if (config.architecture.orm === 'kysely') {
+      additions.dependencies.kysely = '^0.28';
+      additions.scripts['db:migrate'] = 'kysely migrate:latest';
+    }
+  },
+  readme(config) {
+    return config.architecture.orm === 'kysely' ? '## Kysely\\n\\nQueries are written with Kysely.' : undefined;
+  },
+});
+`;
+
+const DB_TEMPLATE = `export interface Database {
+<% it.tables.forEach((table) => { -%>
+  <%= table %>: { id: number };
+<% }) -%>
+}
+`;
+
+const kyselyConfig = (name: string, architecture: Record<string, unknown> = {}) => ({
+  name,
+  architecture: { database: 'postgres', orm: 'kysely', skipInstall: true, ...architecture },
+});
+
+describe('Plugins', () => {
+  let client: MCPTestClient;
+  let tempDir: string;
+  let pluginPath: string;
+  const serverPath = path.join(__dirname, '../../dist/cli.js');
+
+  beforeAll(async () => {
+    tempDir = await createTempDir();
+    const pluginDir = path.join(tempDir, 'kysely-plugin');
+    await fs.mkdir(path.join(pluginDir, 'templates', 'kysely'), { recursive: true });
+    pluginPath = path.join(pluginDir, 'index.mjs');
+    await fs.writeFile(pluginPath, PLUGIN_SOURCE);
+    await fs.writeFile(path.join(pluginDir, 'templates', 'kysely', 'db.ts.template'), DB_TEMPLATE);
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+  });
+
+  afterAll(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  const connect = async (
+    options: { args?: string[]; env?: Record<string, string> } = { args: ['--plugin', pluginPath] }
+  ) => {
+    client = new MCPTestClient();
+    await client.connect(serverPath, options);
+  };
+
+  it('should list plugin tools with their extra arguments', async () => {
+    await connect();
+
+    const { tools } = await client.listTools();
+    const tool = tools.find((candidate) => candidate.name === 'generate_kysely_db');
+
+    expect(tool?.description).toBe('Generate a Kysely database interface');
+    expect(tool?.inputSchema.properties).toHaveProperty('tables');
+    expect(tool?.inputSchema.properties).toHaveProperty('projectPath');
+    expect(tool?.inputSchema.required).toContain('tables');
+  });
+
+  it('should accept architecture values added by a plugin and apply its database rules', async () => {
+    await connect();
+
+    const valid = await client.callTool('check_config', { config: kyselyConfig('kysely-app') });
+    expect(client.isSuccess(valid)).toBe(true);
+
+    const invalid = await client.callTool('check_config', {
+      config: kyselyConfig('kysely-app', { database: 'mongodb' }),
+    });
+    expect(client.isSuccess(invalid)).toBe(false);
+    expect(client.getTextContent(invalid)).toContain(
+      'kysely does not support mongodb. Set database to "postgres", "mysql" or "sqlite"'
+    );
+  });
+
+  it('should run a plugin tool with plugin templates', async () => {
+    await connect();
+    const projectPath = path.join(tempDir, 'run-tool');
+    await fs.mkdir(projectPath);
+
+    const result = await client.callTool('generate_kysely_db', {
+      config: kyselyConfig('run-tool'),
+      projectPath,
+      tables: ['users', 'posts'],
+    });
+
+    expect(client.isSuccess(result)).toBe(true);
+    expect(client.getTextContent(result)).toContain('Generated src/lib/db/kysely.ts');
+    expect(await readFile(path.join(projectPath, 'src', 'lib', 'db', 'kysely.ts'))).toBe(
+      'export interface Database {\n  users: { id: number };\n  posts: { id: number };\n}\n'
+    );
+  });
+
+  it('should validate plugin tool arguments', async () => {
+    await connect();
+
+    const result = await client.callTool('generate_kysely_db', {
+      config: kyselyConfig('invalid-args'),
+      projectPath: tempDir,
+      tables: [],
+    });
+
+    expect(client.isSuccess(result)).toBe(false);
+    expect(client.getTextContent(result)).toContain('Invalid arguments for generate_kysely_db');
+    expect(client.getTextContent(result)).toContain('- tables:');
+  });
+
+  it('should roll back the file changes of a plugin tool that throws', async () => {
+    await connect();
+    const projectPath = path.join(tempDir, 'broken-tool');
+    await fs.mkdir(projectPath);
+
+    const result = await client.callTool('broken_generator', { config: kyselyConfig('broken-tool'), projectPath });
+
+    expect(client.isSuccess(result)).toBe(false);
+    expect(client.getTextContent(result)).toContain('generator exploded');
+    expect(await fileExists(path.join(projectPath, 'src', 'lib', 'db', 'partial.ts'))).toBe(false);
+  });
+
+  it('should let plugins add package.json scripts and dependencies', async () => {
+    await connect();
+
+    const result = await client.callTool('scaffold_project', {
+      config: kyselyConfig('kysely-scaffold'),
+      targetPath: tempDir,
+      dryRun: true,
+    });
+
+    expect(client.isSuccess(result)).toBe(true);
+    const text = client.getTextContent(result);
+    expect(text).toContain('+ dependencies.kysely: ^0.28');
+    expect(text).toContain('+ scripts.db:migrate: kysely migrate:latest');
+  });
+
+  it('should add plugin sections to the README', async () => {
+    await connect();
+    const projectPath = path.join(tempDir, 'readme');
+    await fs.mkdir(projectPath);
+    await createPackageJson(projectPath);
+
+    const result = await client.callTool('generate_readme', { config: kyselyConfig('readme'), projectPath });
+
+    expect(client.isSuccess(result)).toBe(true);
+    const readme = await readFile(path.join(projectPath, 'README.md'));
+    expect(readme).toContain('## Kysely\n\nQueries are written with Kysely.\n\n## Contributing');
+  });
+
+  it('should load plugins listed in the server config file', async () => {
+    const configPath = path.join(tempDir, 'config.json');
+    await fs.writeFile(configPath, JSON.stringify({ plugins: ['./kysely-plugin/index.mjs'] }));
+    await connect({ env: { NEXT_MCP_CONFIG: configPath } });
+
+    const { tools } = await client.listTools();
+
+    expect(tools.map((tool) => tool.name)).toContain('generate_kysely_db');
+  });
+
+  it('should refuse to start with a plugin whose tool name is taken', async () => {
+    const clashingPath = path.join(tempDir, 'clashing.mjs');
+    await fs.writeFile(
+      clashingPath,
+      "export default { name: 'clashing', tools: [{ name: 'setup_database', description: 'x', run: () => '' }] };\n"
+    );
+    client = new MCPTestClient();
+
+    await expect(client.connect(serverPath, { args: ['--plugin', clashingPath] })).rejects.toThrow();
+  });
+});
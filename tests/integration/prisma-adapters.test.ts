@@ -0,0 +1,96 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { MCPTestClient } from '../helpers/mcp-test-client.js';
+import { cleanupTempDir, createMockConfig, createPackageJson, createTempDir, readFile } from '../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('Prisma driver adapters', () => {
+  let client: MCPTestClient;
+  let tempDir: string;
+  const serverPath = path.join(__dirname, '../../dist/cli.js');
+
+  beforeAll(async () => {
+    client = new MCPTestClient();
+    await client.connect(serverPath);
+    tempDir = await createTempDir();
+  }, 30000);
+
+  afterAll(async () => {
+    await client.disconnect();
+    await cleanupTempDir(tempDir);
+  });
+
+  // An existing schema and skipInstall skip prisma init and generate, so no Prisma CLI is downloaded
+  const setupPrismaProject = async (database: string) => {
+    const projectPath = path.join(tempDir, `prisma-${database}`);
+    await fs.mkdir(path.join(projectPath, 'prisma'), { recursive: true });
+    await fs.writeFile(path.join(projectPath, 'prisma', 'schema.prisma'), '');
+    await createPackageJson(projectPath);
+    const config = createMockConfig({
+      name: `prisma-${database}`,
+      architecture: { database, orm: 'prisma', skipInstall: true },
+    });
+
+    const result = await client.callTool('setup_database', { config, projectPath });
+    expect(client.isSuccess(result)).toBe(true);
+
+    const scaffold = await client.callTool('scaffold_project', { config, targetPath: tempDir, dryRun: true });
+    expect(client.isSuccess(scaffold)).toBe(true);
+
+    return {
+      client: await readFile(path.join(projectPath, 'src/lib/db/client.ts')),
+      index: await readFile(path.join(projectPath, 'src/lib/db/index.ts')),
+      plan: client.getTextContent(scaffold),
+    };
+  };
+
+  it('should use the pg adapter for Postgres', async () => {
+    const { client: dbClient, plan } = await setupPrismaProject('postgres');
+
+    expect(dbClient).toContain("import { PrismaPg } from '@prisma/adapter-pg'");
+    expect(dbClient).toContain("from './.prisma/client'");
+    expect(plan).toContain('+ dependencies.@prisma/adapter-pg');
+    expect(plan).toContain('+ dependencies.pg');
+    expect(plan).not.toContain('adapter-mariadb');
+  });
+
+  it('should use the MariaDB adapter for MySQL', async () => {
+    const { client: dbClient, plan } = await setupPrismaProject('mysql');
+
+    expect(dbClient).toContain("import { PrismaMariaDb } from '@prisma/adapter-mariadb'");
+    expect(dbClient).toContain('new PrismaMariaDb({');
+    expect(dbClient).not.toContain('adapter-pg');
+    expect(plan).toContain('+ dependencies.@prisma/adapter-mariadb');
+    expect(plan).toContain('+ dependencies.mariadb');
+    expect(plan).not.toContain('+ dependencies.pg');
+  });
+
+  it('should use the better-sqlite3 adapter for SQLite', async () => {
+    const { client: dbClient, plan } = await setupPrismaProject('sqlite');
+
+    expect(dbClient).toContain("import { PrismaBetterSqlite3 } from '@prisma/adapter-better-sqlite3'");
+    expect(dbClient).toContain('new PrismaBetterSqlite3({ url: process.env.DATABASE_URL })');
+    expect(plan).toContain('+ dependencies.@prisma/adapter-better-sqlite3');
+    expect(plan).toContain('+ dependencies.better-sqlite3');
+    expect(plan).not.toContain('+ dependencies.pg');
+  });
+
+  it('should use a client without an adapter on Prisma 6 for MongoDB', async () => {
+    const { client: dbClient, index, plan } = await setupPrismaProject('mongodb');
+
+    expect(dbClient).toContain('new PrismaClient()');
+    expect(dbClient).not.toContain('@prisma/adapter');
+    // MongoDB projects use the prisma-client-js generator, imported from the output directory
+    expect(dbClient).toContain("from './.prisma'");
+    expect(index).toContain("from './.prisma'");
+    expect(plan).toContain('+ dependencies.@prisma/client: ^6');
+    expect(plan).toContain('+ devDependencies.prisma: ^6');
+    expect(plan).not.toContain('@prisma/adapter');
+  });
+});
@@ -0,0 +1,90 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { MCPTestClient } from '../helpers/mcp-test-client.js';
+import { cleanupTempDir, createMockConfig, createTempDir } from '../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('Progress notifications', () => {
+  let client: MCPTestClient;
+  let tempDir: string;
+  const serverPath = path.join(__dirname, '../../dist/cli.js');
+
+  beforeAll(async () => {
+    client = new MCPTestClient();
+    await client.connect(serverPath);
+    tempDir = await createTempDir();
+  }, 30000);
+
+  afterAll(async () => {
+    await client.disconnect();
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should report every long-running phase of the pipeline', async () => {
+    const config = createMockConfig({
+      name: 'progress-project',
+      architecture: {
+        database: 'postgres',
+        orm: 'prisma',
+        auth: 'better-auth',
+        uiLibrary: 'shadcn',
+        skipInstall: false,
+      },
+    });
+
+    const { result, progress } = await client.callToolWithProgress('create_full_project', {
+      config,
+      targetPath: tempDir,
+      dryRun: true,
+    });
+
+    expect(client.isSuccess(result)).toBe(true);
+    const messages = progress.map((notification) => notification.message);
+    expect(messages[0]).toBe('Step 1/8: scaffold_project');
+    expect(messages.some((message) => message?.includes('create-next-app'))).toBe(true);
+    expect(messages).toContain('Updating package.json scripts and dependencies');
+    expect(messages.some((message) => message?.includes('install dependencies'))).toBe(true);
+    expect(messages.some((message) => message?.includes('shadcn init'))).toBe(true);
+    expect(messages.some((message) => message?.includes('shadcn add all'))).toBe(true);
+    expect(messages.some((message) => message?.includes('prisma init'))).toBe(true);
+    expect(messages.some((message) => message?.includes('prisma generate'))).toBe(true);
+    expect(messages.some((message) => message?.includes('auth schema generation'))).toBe(true);
+
+    // Progress counts the finished steps out of the pipeline's 8, rising with every notification in between
+    expect(progress.every((notification) => notification.total === 8)).toBe(true);
+    expect(progress[0].progress).toBe(0);
+    const values = progress.map((notification) => notification.progress);
+    expect(values.every((value, index) => index === 0 || value > values[index - 1])).toBe(true);
+    expect(values.every((value) => value < 8)).toBe(true);
+    expect(progress.find((notification) => notification.message === 'Step 2/8: setup_shadcn')?.progress).toBe(1);
+  });
+
+  it('should count the steps of a single tool without a total', async () => {
+    const config = createMockConfig({ name: 'progress-scaffold' });
+
+    const { result, progress } = await client.callToolWithProgress('scaffold_project', {
+      config,
+      targetPath: tempDir,
+      dryRun: true,
+    });
+
+    expect(client.isSuccess(result)).toBe(true);
+    expect(progress.length).toBeGreaterThan(0);
+    expect(progress.map((notification) => notification.progress)).toEqual(progress.map((_, index) => index + 1));
+    expect(progress.every((notification) => notification.total === undefined)).toBe(true);
+  });
+
+  it('should not send progress for tools without long-running steps', async () => {
+    const config = createMockConfig({ name: 'progress-readme' });
+
+    const { result, progress } = await client.callToolWithProgress('generate_readme', { config, projectPath: tempDir });
+
+    expect(client.isSuccess(result)).toBe(true);
+    expect(progress).toEqual([]);
+  });
+});
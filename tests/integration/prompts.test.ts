@@ -0,0 +1,74 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { ProjectConfigSchema } from '../../src/index.js';
+import { MCPTestClient } from '../helpers/mcp-test-client.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('MCP prompts', () => {
+  let client: MCPTestClient;
+  const serverPath = path.join(__dirname, '../../dist/cli.js');
+
+  beforeAll(async () => {
+    client = new MCPTestClient();
+    await client.connect(serverPath);
+  }, 30000);
+
+  afterAll(async () => {
+    await client.disconnect();
+  });
+
+  const parseToolCall = (text: string) => JSON.parse(text.split('```json\n')[1].split('\n```')[0]);
+
+  it('should list the project prompts', async () => {
+    const { prompts } = await client.listPrompts();
+    const names = prompts.map((prompt) => prompt.name);
+
+    expect(names).toEqual(['saas-starter', 'internal-dashboard', 'marketing-site', 'api-only']);
+    for (const prompt of prompts) {
+      expect(prompt.arguments?.find((arg) => arg.name === 'targetPath')?.required).toBe(true);
+    }
+  });
+
+  it('should explain the trade-off of every architecture field', async () => {
+    const text = await client.getPrompt('saas-starter', { targetPath: '/tmp/projects' });
+
+    for (const field of Object.keys(ProjectConfigSchema.shape.architecture.shape)) {
+      expect(text).toContain(`- ${field} (suggested:`);
+    }
+    expect(text).toContain('Why for this project');
+  });
+
+  it('should emit a valid scaffold_project call', async () => {
+    const text = await client.getPrompt('marketing-site', {
+      targetPath: '/tmp/projects',
+      name: 'launch-site',
+      description: 'Product launch page',
+    });
+
+    const call = parseToolCall(text);
+    expect(call.name).toBe('scaffold_project');
+    expect(call.arguments.targetPath).toBe('/tmp/projects');
+    expect(call.arguments.config.name).toBe('launch-site');
+    expect(call.arguments.config.description).toBe('Product launch page');
+    expect(call.arguments.config.architecture.database).toBe('none');
+    expect(call.arguments.config.architecture.auth).toBe('none');
+    expect(() => ProjectConfigSchema.parse(call.arguments.config)).not.toThrow();
+  });
+
+  it('should suggest a backend-only stack for api-only', async () => {
+    const call = parseToolCall(await client.getPrompt('api-only', { targetPath: '/tmp/projects' }));
+
+    expect(call.arguments.config.architecture.uiLibrary).toBe('none');
+    expect(call.arguments.config.name).toBeUndefined();
+  });
+
+  it('should reject unknown prompts and a missing targetPath', async () => {
+    await expect(client.getPrompt('unknown', { targetPath: '/tmp' })).rejects.toThrow('Unknown prompt');
+    await expect(client.getPrompt('saas-starter', {})).rejects.toThrow('requires a targetPath');
+  });
+});
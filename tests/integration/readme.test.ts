@@ -12,9 +12,9 @@ const __dirname = path.dirname(__filename);
 describe('README Generation', () => {
   let client: MCPTestClient;
   let tempDir: string;
-  // Always test the built distribution files (dist/index.js)
+  // Always test the built distribution files (dist/cli.js)
   // This ensures we test exactly what will be deployed/published
-  const serverPath = path.join(__dirname, '../../dist/index.js');
+  const serverPath = path.join(__dirname, '../../dist/cli.js');
 
   beforeEach(async () => {
     client = new MCPTestClient();
@@ -211,6 +211,7 @@ describe('README Generation', () => {
       architecture: {
         database: 'none',
         orm: 'none',
+        auth: 'none',
       },
     });
 
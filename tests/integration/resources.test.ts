@@ -0,0 +1,110 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { MCPTestClient } from '../helpers/mcp-test-client.js';
+import { cleanupTempDir, createMockConfig, createPackageJson, createTempDir, readFile } from '../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('MCP resources', () => {
+  let client: MCPTestClient;
+  let tempDir: string;
+  const serverPath = path.join(__dirname, '../../dist/cli.js');
+
+  beforeAll(async () => {
+    client = new MCPTestClient();
+    await client.connect(serverPath);
+    tempDir = await createTempDir();
+  }, 30000);
+
+  afterAll(async () => {
+    await client.disconnect();
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should list templates and the log before any project is used', async () => {
+    const { resources } = await client.listResources();
+    const uris = resources.map((resource) => resource.uri);
+
+    expect(uris).toContain('template://next.config.template');
+    expect(uris).toContain('template://docker/Dockerfile');
+    expect(uris.some((uri) => uri.startsWith('log://'))).toBe(true);
+    expect(uris).not.toContain('project://manifest');
+  });
+
+  it('should read a template', async () => {
+    const text = await client.readResource('template://next.config.template');
+
+    expect(text).toContain('NextConfig');
+  });
+
+  it('should expose the manifest and generated files of the current project', async () => {
+    const config = createMockConfig({ name: 'resources-project' });
+    await createPackageJson(tempDir, { name: 'resources-project' });
+    await client.callTool('detect_project_config', { projectPath: tempDir, writeManifest: true });
+
+    const result = await client.callTool('generate_readme', { config, projectPath: tempDir });
+    expect(client.isSuccess(result)).toBe(true);
+
+    const { resources } = await client.listResources();
+    const uris = resources.map((resource) => resource.uri);
+    expect(uris).toContain('project://manifest');
+    expect(uris).toContain('project://files/README.md');
+
+    const manifest = JSON.parse(await client.readResource('project://manifest'));
+    expect(manifest.config.name).toBe('resources-project');
+
+    const readme = await client.readResource('project://files/README.md');
+    expect(readme).toBe(await readFile(path.join(tempDir, 'README.md')));
+  });
+
+  it('should return the tail of the server log', async () => {
+    const { resources } = await client.listResources();
+    const log = resources.find((resource) => resource.uri.startsWith('log://'))!;
+
+    const text = await client.readResource(log.uri);
+
+    expect(text.split('\n').length).toBeLessThanOrEqual(200);
+    expect(text.length).toBeGreaterThan(0);
+  });
+
+  it('should reject unknown and escaping resources', async () => {
+    await expect(client.readResource('template://../index.js')).rejects.toThrow('Unknown resource');
+    await expect(client.readResource('project://files/package.json')).rejects.toThrow('Unknown resource');
+    await expect(client.readResource('unknown://thing')).rejects.toThrow('Unknown resource');
+  });
+
+  it('should not follow a recorded file that links outside the project', async () => {
+    const outsideDir = await createTempDir();
+    await fs.writeFile(path.join(outsideDir, 'secret.txt'), 'secret');
+    await fs.symlink(path.join(outsideDir, 'secret.txt'), path.join(tempDir, 'linked.txt'));
+
+    const manifestPath = path.join(tempDir, '.next-mcp.json');
+    const manifest = JSON.parse(await readFile(manifestPath));
+    manifest.files['linked.txt'] = 'hash';
+    await fs.writeFile(manifestPath, JSON.stringify(manifest));
+
+    try {
+      await expect(client.readResource('project://files/linked.txt')).rejects.toThrow('Access denied');
+    } finally {
+      await cleanupTempDir(outsideDir);
+    }
+  });
+
+  it('should ignore a manifest that records files outside the project', async () => {
+    const manifestPath = path.join(tempDir, '.next-mcp.json');
+    const manifest = JSON.parse(await readFile(manifestPath));
+    manifest.files['../../.ssh/id_rsa'] = 'hash';
+    await fs.writeFile(manifestPath, JSON.stringify(manifest));
+
+    const { resources } = await client.listResources();
+    const uris = resources.map((resource) => resource.uri);
+
+    expect(uris).not.toContain('project://manifest');
+    await expect(client.readResource('project://files/README.md')).rejects.toThrow('No current project');
+  });
+});
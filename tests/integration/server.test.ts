@@ -10,7 +10,7 @@ const __dirname = path.dirname(__filename);
 
 describe('MCP Server Initialization', () => {
   let client: MCPTestClient;
-  const serverPath = path.join(__dirname, '../../dist/index.js');
+  const serverPath = path.join(__dirname, '../../dist/cli.js');
 
   beforeAll(async () => {
     client = new MCPTestClient();
@@ -36,11 +36,21 @@ describe('MCP Server Initialization', () => {
     const toolNames = result.tools.map((t) => t.name);
     const expectedTools = [
       'scaffold_project',
+      'create_full_project',
+      'rollback_last_operation',
+      'detect_project_config',
+      'check_config',
+      'list_presets',
+      'save_preset',
+      'delete_preset',
       'generate_dockerfile',
       'setup_shadcn',
       'generate_base_components',
       'setup_database',
       'setup_authentication',
+      'setup_seed',
+      'generate_model',
+      'generate_crud',
       'validate_project',
       'generate_readme',
     ];
@@ -49,8 +59,8 @@ describe('MCP Server Initialization', () => {
       expect(toolNames).toContain(expectedTool);
     }
 
-    // Should have exactly 8 tools
-    expect(toolNames).toHaveLength(8);
+    // Should have exactly 18 tools
+    expect(toolNames).toHaveLength(18);
   });
 
   it('should have proper tool schemas', async () => {
@@ -78,6 +88,20 @@ describe('MCP Server Initialization', () => {
     }
   });
 
+  it('should name the offending field when arguments are invalid', async () => {
+    const result = await client.callTool('scaffold_project', {
+      config: {
+        name: 'invalid-config',
+        description: 'Invalid config',
+        architecture: { database: 'oracle' },
+      },
+      targetPath: '/tmp',
+    });
+
+    expect(client.isSuccess(result)).toBe(false);
+    expect(client.getTextContent(result)).toContain('config.architecture.database');
+  });
+
   it('should provide tool descriptions', async () => {
     const result = await client.listTools();
 
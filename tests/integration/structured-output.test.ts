@@ -0,0 +1,141 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { MCPTestClient } from '../helpers/mcp-test-client.js';
+import { cleanupTempDir, createMockConfig, createPackageJson, createTempDir } from '../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+type ToolOutput = {
+  tool: string;
+  status: 'success' | 'failed' | 'skipped';
+  dryRun: boolean;
+  filesCreated: string[];
+  filesModified: string[];
+  commandsRun: string[];
+  warnings: string[];
+  nextSteps: string[];
+  error?: string;
+  steps?: Record<string, string>;
+};
+
+describe('Structured tool output', () => {
+  let client: MCPTestClient;
+  let tempDir: string;
+  const serverPath = path.join(__dirname, '../../dist/cli.js');
+
+  beforeAll(async () => {
+    client = new MCPTestClient();
+    await client.connect(serverPath);
+    tempDir = await createTempDir();
+  }, 30000);
+
+  afterAll(async () => {
+    await client.disconnect();
+    await cleanupTempDir(tempDir);
+  });
+
+  const createProjectDir = async (name: string) => {
+    const projectPath = path.join(tempDir, name);
+    await fs.mkdir(projectPath, { recursive: true });
+    await createPackageJson(projectPath);
+    return projectPath;
+  };
+
+  it('should declare an output schema for every tool', async () => {
+    const { tools } = await client.listTools();
+
+    for (const tool of tools) {
+      expect(tool.outputSchema?.required).toEqual(
+        expect.arrayContaining(['status', 'filesCreated', 'filesModified', 'commandsRun', 'warnings', 'nextSteps'])
+      );
+    }
+  });
+
+  it('should report the files a tool created', async () => {
+    const projectPath = await createProjectDir('structured-readme');
+    const config = createMockConfig({ name: 'structured-readme' });
+
+    const result = await client.callTool('generate_readme', { config, projectPath });
+
+    const output = result.structuredContent as ToolOutput;
+    expect(result.isError).toBe(false);
+    expect(output.tool).toBe('generate_readme');
+    expect(output.status).toBe('success');
+    expect(output.dryRun).toBe(false);
+    expect(output.filesCreated).toContain(path.join(projectPath, 'README.md'));
+    expect(output.commandsRun).toEqual([]);
+  });
+
+  it('should report next steps and modified files', async () => {
+    const projectPath = await createProjectDir('structured-database');
+    await fs.writeFile(path.join(projectPath, '.env'), 'EXISTING=1\n');
+    const config = createMockConfig({
+      name: 'structured-database',
+      architecture: { database: 'sqlite', orm: 'drizzle', auth: 'none' },
+    });
+
+    const result = await client.callTool('setup_database', { config, projectPath });
+
+    const output = result.structuredContent as ToolOutput;
+    expect(output.status).toBe('success');
+    expect(output.filesCreated).toContain(path.join(projectPath, 'drizzle.config.ts'));
+    expect(output.filesModified).toContain(path.join(projectPath, '.env'));
+    expect(output.nextSteps.some((step) => step.includes('drizzle-kit generate'))).toBe(true);
+  });
+
+  it('should report warnings', async () => {
+    const projectPath = await createProjectDir('structured-validate');
+    await fs.writeFile(path.join(projectPath, 'next.config.ts'), 'export default {};\n');
+    await fs.writeFile(path.join(projectPath, 'tsconfig.json'), '{}');
+    const config = createMockConfig({ name: 'structured-validate' });
+
+    const result = await client.callTool('validate_project', { config, projectPath });
+
+    const output = result.structuredContent as ToolOutput;
+    expect(output.status).toBe('success');
+    expect(output.warnings).toContain('Build validation skipped because skipInstall is true');
+  });
+
+  it('should set isError and the error for failed tools', async () => {
+    const projectPath = path.join(tempDir, 'structured-missing');
+    await fs.mkdir(projectPath);
+    const config = createMockConfig({ name: 'structured-missing' });
+
+    const result = await client.callTool('validate_project', { config, projectPath });
+
+    const output = result.structuredContent as ToolOutput;
+    expect(result.isError).toBe(true);
+    expect(output.status).toBe('failed');
+    expect(output.error).toContain('Validation failed');
+  });
+
+  it('should set isError when the call itself is rejected', async () => {
+    const projectPath = path.join(tempDir, 'structured-no-config');
+    await fs.mkdir(projectPath);
+
+    const result = await client.callTool('generate_dockerfile', { projectPath });
+
+    const output = result.structuredContent as ToolOutput;
+    expect(result.isError).toBe(true);
+    expect(output.status).toBe('failed');
+    expect(output.error).toContain('No config provided');
+  });
+
+  it('should report planned commands and per-step statuses for a dry run', async () => {
+    const config = createMockConfig({ name: 'structured-pipeline' });
+
+    const result = await client.callTool('create_full_project', { config, targetPath: tempDir, dryRun: true });
+
+    const output = result.structuredContent as ToolOutput;
+    expect(output.dryRun).toBe(true);
+    expect(output.status).toBe('success');
+    expect(output.commandsRun.some((command) => command.includes('create-next-app'))).toBe(true);
+    expect(output.steps?.scaffold_project).toBe('success');
+    expect(Object.keys(output.steps ?? {})).toHaveLength(8);
+  });
+});
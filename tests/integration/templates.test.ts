@@ -0,0 +1,118 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+
+import { MCPTestClient } from '../helpers/mcp-test-client.js';
+import { cleanupTempDir, createMockConfig, createTempDir, readFile } from '../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('Template overrides', () => {
+  let client: MCPTestClient;
+  let tempDir: string;
+  let overridesDir: string;
+  const serverPath = path.join(__dirname, '../../dist/cli.js');
+
+  beforeAll(async () => {
+    tempDir = await createTempDir();
+    overridesDir = path.join(tempDir, 'templates');
+    await fs.mkdir(path.join(overridesDir, 'docker', 'services'), { recursive: true });
+    await fs.writeFile(
+      path.join(overridesDir, 'home-page.tsx.template'),
+      [
+        'export default function Home() {',
+        '  return <h1>Welcome to <%= it.name %></h1>;',
+        '}',
+        '<% if (it.architecture.auth !== "none") { -%>',
+        '// auth: <%= it.architecture.auth %>',
+        '<% } -%>',
+        '',
+      ].join('\n')
+    );
+    await fs.writeFile(
+      path.join(overridesDir, 'docker', 'services', 'postgres.yml'),
+      '  db:\n    image: our-registry/postgres:17\n'
+    );
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+  });
+
+  afterAll(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  const connect = async (options: { args?: string[]; env?: Record<string, string> }) => {
+    client = new MCPTestClient();
+    await client.connect(serverPath, options);
+  };
+
+  it('should render an override instead of the built-in template', async () => {
+    await connect({ env: { NEXT_MCP_TEMPLATES_DIR: overridesDir } });
+    const projectPath = path.join(tempDir, 'home-override');
+    await fs.mkdir(path.join(projectPath, 'src', 'app'), { recursive: true });
+    await fs.mkdir(path.join(projectPath, 'src', 'components', 'ui'), { recursive: true });
+    const config = createMockConfig({
+      name: 'override-app',
+      architecture: { auth: 'better-auth', database: 'sqlite', uiLibrary: 'none' },
+    });
+
+    const result = await client.callTool('generate_base_components', { config, projectPath });
+
+    expect(client.isSuccess(result)).toBe(true);
+    const page = await readFile(path.join(projectPath, 'src', 'app', 'page.tsx'));
+    expect(page).toBe(
+      'export default function Home() {\n  return <h1>Welcome to override-app</h1>;\n}\n// auth: better-auth\n'
+    );
+
+    // Templates that are not overridden still come from the built-in set
+    const button = await readFile(path.join(projectPath, 'src', 'components', 'ui', 'button.tsx'));
+    expect(button).toContain('forwardRef');
+  });
+
+  it('should use an overridden partial inside a built-in template', async () => {
+    await connect({ args: ['--templates-dir', overridesDir] });
+    const projectPath = path.join(tempDir, 'partial-override');
+    await fs.mkdir(projectPath);
+    const config = createMockConfig({ name: 'partial-app', architecture: { database: 'postgres', orm: 'drizzle' } });
+
+    const result = await client.callTool('generate_dockerfile', { config, projectPath });
+
+    expect(client.isSuccess(result)).toBe(true);
+    const compose = await readFile(path.join(projectPath, 'docker-compose.yml'));
+    expect(compose).toContain('image: our-registry/postgres:17');
+    expect(compose).not.toContain('postgres:17-alpine');
+    expect(compose).toContain('- DATABASE_URL=postgresql://postgres:postgres@db:5432/partial-app');
+  });
+
+  it('should mark overridden templates in the resource list and serve the override', async () => {
+    await connect({ env: { NEXT_MCP_TEMPLATES_DIR: overridesDir } });
+
+    const { resources } = await client.listResources();
+    const homePage = resources.find((resource) => resource.uri === 'template://home-page.tsx.template');
+    const readme = resources.find((resource) => resource.uri === 'template://README.md.template');
+
+    expect(homePage?.description).toContain(`overridden in ${overridesDir}`);
+    expect(readme?.description).not.toContain('overridden');
+    expect(await client.readResource('template://home-page.tsx.template')).toContain('<%= it.name %>');
+  });
+
+  it('should report a template that fails to render', async () => {
+    const brokenDir = path.join(tempDir, 'broken-templates');
+    await fs.mkdir(brokenDir, { recursive: true });
+    await fs.writeFile(path.join(brokenDir, 'README.md.template'), '# <%= it.missing.name %>\n');
+    await connect({ env: { NEXT_MCP_TEMPLATES_DIR: brokenDir } });
+
+    const result = await client.callTool('generate_readme', {
+      config: createMockConfig({ name: 'broken-app' }),
+      projectPath: tempDir,
+    });
+
+    expect(client.isSuccess(result)).toBe(false);
+    expect(client.getTextContent(result)).toContain('Could not render template README.md.template');
+  });
+});
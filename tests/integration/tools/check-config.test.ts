@@ -0,0 +1,71 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { MCPTestClient } from '../../helpers/mcp-test-client.js';
+import { createMockConfig } from '../../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('check_config tool', () => {
+  let client: MCPTestClient;
+  const serverPath = path.join(__dirname, '../../../dist/cli.js');
+
+  beforeAll(async () => {
+    client = new MCPTestClient();
+    await client.connect(serverPath);
+  }, 30000);
+
+  afterAll(async () => {
+    await client.disconnect();
+  });
+
+  it('should accept a compatible stack and return it with defaults', async () => {
+    const config = createMockConfig({
+      architecture: { database: 'mongodb', orm: 'mongoose' },
+    });
+
+    const result = await client.callTool('check_config', { config });
+
+    expect(client.isSuccess(result)).toBe(true);
+
+    const text = client.getTextContent(result);
+    expect(text).toContain('Config is valid');
+    expect(text).toContain('"uiLibrary": "shadcn"');
+  });
+
+  it('should not read the status from the text of the result', async () => {
+    const config = createMockConfig({ description: 'Failed builds dashboard ❌\nFailed deploys too' });
+
+    const result = await client.callTool('check_config', { config });
+
+    // isSuccess reads the text too, so check the flags the server sets
+    expect(result.isError).toBe(false);
+    expect(client.getTextContent(result)).toContain('Failed builds dashboard ❌');
+    expect((result.structuredContent as { status: string }).status).toBe('success');
+  });
+
+  it('should report every incompatible combination with a suggestion', async () => {
+    const result = await client.callTool('check_config', {
+      config: { architecture: { database: 'none', orm: 'prisma', auth: 'better-auth' } },
+    });
+
+    expect(client.isSuccess(result)).toBe(false);
+
+    const text = client.getTextContent(result);
+    expect(text).toContain('architecture.orm: prisma needs a database');
+    expect(text).toContain('or set orm to "none"');
+    expect(text).toContain('architecture.auth: Better Auth requires a database');
+  });
+
+  it('should suggest ORMs that support the chosen database', async () => {
+    const result = await client.callTool('check_config', {
+      config: { architecture: { database: 'mongodb', orm: 'drizzle' } },
+    });
+
+    expect(client.isSuccess(result)).toBe(false);
+    expect(client.getTextContent(result)).toContain('or set orm to "prisma", "mongoose" or "none"');
+  });
+});
@@ -0,0 +1,175 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { MCPTestClient } from '../../helpers/mcp-test-client.js';
+import { cleanupTempDir, createMockConfig, createTempDir, fileExists } from '../../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('create_full_project tool', () => {
+  let client: MCPTestClient;
+  let tempDir: string;
+  const serverPath = path.join(__dirname, '../../../dist/cli.js');
+
+  beforeAll(async () => {
+    client = new MCPTestClient();
+    await client.connect(serverPath);
+    tempDir = await createTempDir();
+  }, 30000);
+
+  afterAll(async () => {
+    await client.disconnect();
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should run every step and report each one', async () => {
+    const projectName = 'full-pipeline';
+    const projectPath = path.join(tempDir, projectName);
+    const config = createMockConfig({
+      name: projectName,
+      architecture: {
+        database: 'sqlite',
+        orm: 'drizzle',
+        auth: 'none',
+        uiLibrary: 'none',
+      },
+    });
+
+    const result = await client.callTool('create_full_project', { config, targetPath: tempDir });
+
+    expect(client.isSuccess(result)).toBe(true);
+
+    const text = client.getTextContent(result);
+    expect(text).toContain('Successfully created and set up Next.js project');
+    expect(text).toContain('✅ scaffold_project - success');
+    expect(text).toContain('✅ setup_database - success');
+    expect(text).toContain('⏭️ setup_authentication - skipped');
+    expect(text).toContain('✅ validate_project - success');
+
+    expect(await fileExists(path.join(projectPath, 'drizzle.config.ts'))).toBe(true);
+    expect(await fileExists(path.join(projectPath, 'Dockerfile'))).toBe(true);
+    expect(await fileExists(path.join(projectPath, 'README.md'))).toBe(true);
+  }, 120000);
+
+  it('should block dependent steps and suggest where to resume', async () => {
+    const projectName = 'pipeline-broken-db';
+    const projectPath = path.join(tempDir, projectName);
+    const config = createMockConfig({
+      name: projectName,
+      architecture: {
+        database: 'sqlite',
+        orm: 'drizzle',
+        auth: 'better-auth',
+        uiLibrary: 'none',
+      },
+    });
+
+    // A file where setup_database needs the src/lib/db directory makes the step fail
+    await fs.mkdir(path.join(projectPath, 'src', 'lib'), { recursive: true });
+    await fs.writeFile(path.join(projectPath, 'src', 'lib', 'db'), '');
+    const updatedAt = new Date().toISOString();
+    await fs.writeFile(
+      path.join(projectPath, '.next-mcp.json'),
+      JSON.stringify({
+        version: '1.0.0',
+        config,
+        tools: {
+          scaffold_project: { status: 'success', updatedAt },
+          setup_shadcn: { status: 'skipped', updatedAt },
+        },
+        files: {},
+      })
+    );
+
+    const result = await client.callTool('create_full_project', {
+      config,
+      targetPath: tempDir,
+      resumeFrom: 'setup_database',
+    });
+
+    expect(client.isSuccess(result)).toBe(false);
+
+    const text = client.getTextContent(result);
+    expect(text).toContain('❌ setup_database - failed');
+    expect(text).toContain('⛔ setup_authentication - blocked');
+    expect(text).toContain('⛔ validate_project - blocked');
+    expect(text).toContain('resumeFrom: "setup_database"');
+  }, 120000);
+
+  it('should reject an incompatible stack before running any step', async () => {
+    const result = await client.callTool('create_full_project', {
+      config: {
+        name: 'pipeline-auth-without-db',
+        architecture: { database: 'none', orm: 'none', auth: 'better-auth' },
+      },
+      targetPath: tempDir,
+    });
+
+    expect(client.isSuccess(result)).toBe(false);
+    expect(client.getTextContent(result)).toContain('config.architecture.auth');
+    expect(await fileExists(path.join(tempDir, 'pipeline-auth-without-db'))).toBe(false);
+  });
+
+  it('should resume from a later step of an existing project', async () => {
+    const config = createMockConfig({
+      name: 'full-pipeline',
+      architecture: {
+        database: 'sqlite',
+        orm: 'drizzle',
+        auth: 'none',
+        uiLibrary: 'none',
+      },
+    });
+
+    const result = await client.callTool('create_full_project', {
+      config,
+      targetPath: tempDir,
+      resumeFrom: 'generate_readme',
+    });
+
+    expect(client.isSuccess(result)).toBe(true);
+
+    const text = client.getTextContent(result);
+    expect(text).toContain('⏭️ scaffold_project - skipped');
+    expect(text).toContain('✅ generate_readme - success');
+  }, 120000);
+
+  it('should refuse to resume when the project does not exist', async () => {
+    const config = createMockConfig({ name: 'missing-project' });
+
+    const result = await client.callTool('create_full_project', {
+      config,
+      targetPath: tempDir,
+      resumeFrom: 'setup_database',
+    });
+
+    expect(client.isSuccess(result)).toBe(false);
+    expect(client.getTextContent(result)).toContain('Cannot resume from setup_database');
+  });
+  it('should refuse to resume past a step that did not complete', async () => {
+    const manifestPath = path.join(tempDir, 'full-pipeline', '.next-mcp.json');
+    const manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+    manifest.tools.setup_database = { status: 'failed', updatedAt: new Date().toISOString() };
+    delete manifest.tools.generate_dockerfile;
+    await fs.writeFile(manifestPath, JSON.stringify(manifest));
+    const config = createMockConfig({
+      name: 'full-pipeline',
+      architecture: { database: 'sqlite', orm: 'drizzle', auth: 'none', uiLibrary: 'none' },
+    });
+
+    const result = await client.callTool('create_full_project', {
+      config,
+      targetPath: tempDir,
+      resumeFrom: 'generate_readme',
+    });
+
+    expect(result.isError).toBe(true);
+    const text = client.getTextContent(result);
+    expect(text).toContain('setup_database finished with status failed');
+    expect(text).toContain('resumeFrom: "setup_database"');
+  });
+});
@@ -0,0 +1,55 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { MCPTestClient } from '../../helpers/mcp-test-client.js';
+import { cleanupTempDir, createTempDir, fileExists } from '../../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('delete_preset tool', () => {
+  let client: MCPTestClient;
+  let tempDir: string;
+  let presetsDir: string;
+  const serverPath = path.join(__dirname, '../../../dist/cli.js');
+
+  beforeAll(async () => {
+    tempDir = await createTempDir();
+    presetsDir = path.join(tempDir, '.next-mcp', 'presets');
+    await fs.mkdir(presetsDir, { recursive: true });
+    await fs.writeFile(path.join(presetsDir, 'old-stack.json'), JSON.stringify({ architecture: { orm: 'drizzle' } }));
+
+    client = new MCPTestClient();
+    await client.connect(serverPath, { env: { HOME: tempDir } });
+  }, 30000);
+
+  afterAll(async () => {
+    await client.disconnect();
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should delete a user preset', async () => {
+    const result = await client.callTool('delete_preset', { name: 'old-stack' });
+
+    expect(client.isSuccess(result)).toBe(true);
+    expect(client.getTextContent(result)).toContain('Deleted preset "old-stack"');
+    expect(await fileExists(path.join(presetsDir, 'old-stack.json'))).toBe(false);
+  });
+
+  it('should fail for a preset that does not exist', async () => {
+    const result = await client.callTool('delete_preset', { name: 'old-stack' });
+
+    expect(client.isSuccess(result)).toBe(false);
+    expect(client.getTextContent(result)).toContain('No preset named "old-stack"');
+  });
+
+  it('should refuse to delete a built-in preset', async () => {
+    const result = await client.callTool('delete_preset', { name: 'saas-starter' });
+
+    expect(client.isSuccess(result)).toBe(false);
+    expect(client.getTextContent(result)).toContain('built-in preset');
+  });
+});
@@ -0,0 +1,128 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { MCPTestClient } from '../../helpers/mcp-test-client.js';
+import { cleanupTempDir, createTempDir, fileExists, readFile } from '../../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('detect_project_config tool', () => {
+  let client: MCPTestClient;
+  let tempDir: string;
+  const serverPath = path.join(__dirname, '../../../dist/cli.js');
+
+  beforeAll(async () => {
+    client = new MCPTestClient();
+    await client.connect(serverPath);
+    tempDir = await createTempDir();
+  }, 30000);
+
+  afterAll(async () => {
+    await client.disconnect();
+    await cleanupTempDir(tempDir);
+  });
+
+  const parseConfig = (text: string) => JSON.parse(text.split('[Config]:\n')[1].split('\n\n[Confidence]')[0]);
+
+  it('should infer the stack of an existing project', async () => {
+    const projectPath = path.join(tempDir, 'brownfield');
+    await fs.mkdir(path.join(projectPath, 'prisma'), { recursive: true });
+    await fs.mkdir(path.join(projectPath, 'src/lib'), { recursive: true });
+    await fs.mkdir(path.join(projectPath, 'src/app'), { recursive: true });
+    await fs.writeFile(
+      path.join(projectPath, 'package.json'),
+      JSON.stringify({
+        name: 'brownfield-app',
+        dependencies: { next: '16.0.0', '@prisma/client': '^7', 'better-auth': '^1', zustand: '^5' },
+        devDependencies: { typescript: '^5', vitest: '^1', prisma: '^7' },
+      })
+    );
+    await fs.writeFile(path.join(projectPath, 'yarn.lock'), '');
+    await fs.writeFile(path.join(projectPath, 'tsconfig.json'), '{}');
+    await fs.writeFile(path.join(projectPath, 'components.json'), '{}');
+    await fs.writeFile(path.join(projectPath, 'prisma/schema.prisma'), 'datasource db {\n  provider = "mysql"\n}\n');
+    await fs.writeFile(path.join(projectPath, 'src/lib/auth.ts'), 'export const auth = betterAuth({});\n');
+
+    const result = await client.callTool('detect_project_config', { projectPath });
+
+    expect(client.isSuccess(result)).toBe(true);
+
+    const text = client.getTextContent(result);
+    const config = parseConfig(text);
+    expect(config.name).toBe('brownfield-app');
+    expect(config.architecture).toMatchObject({
+      typescript: true,
+      packageManager: 'yarn',
+      database: 'mysql',
+      orm: 'prisma',
+      auth: 'better-auth',
+      uiLibrary: 'shadcn',
+      stateManagement: 'zustand',
+      testing: 'vitest',
+    });
+    expect(text).toContain('- database: 0.95 (prisma/schema.prisma provider "mysql")');
+    expect(text).toContain('- packageManager: 0.95 (yarn.lock)');
+  });
+
+  it('should fall back to low-confidence defaults and warn about unsupported layouts', async () => {
+    const projectPath = path.join(tempDir, 'bare');
+    await fs.mkdir(projectPath, { recursive: true });
+    await fs.writeFile(
+      path.join(projectPath, 'package.json'),
+      JSON.stringify({ name: 'bare', dependencies: { next: '16.0.0', 'next-auth': '^5' } })
+    );
+
+    const result = await client.callTool('detect_project_config', { projectPath });
+    const text = client.getTextContent(result);
+    const config = parseConfig(text);
+
+    expect(config.architecture.database).toBe('none');
+    expect(config.architecture.auth).toBe('none');
+    expect(text).toContain('- packageManager: 0.3 (no lockfile found)');
+    expect(text).toContain('No src/app directory found');
+    expect(text).toContain('next-auth is installed');
+  });
+
+  it('should save the detected config so later tools can omit it', async () => {
+    const projectPath = path.join(tempDir, 'brownfield');
+
+    await client.callTool('detect_project_config', { projectPath, writeManifest: true });
+
+    const manifest = JSON.parse(await readFile(path.join(projectPath, '.next-mcp.json')));
+    expect(manifest.config.architecture.orm).toBe('prisma');
+    expect(manifest.tools.detect_project_config.status).toBe('success');
+
+    const result = await client.callTool('generate_readme', { projectPath });
+    expect(client.isSuccess(result)).toBe(true);
+    expect(await readFile(path.join(projectPath, 'README.md'))).toContain('# brownfield-app');
+  });
+
+  it('should warn about an incompatible stack and not save it', async () => {
+    const projectPath = path.join(tempDir, 'auth-without-db');
+    await fs.mkdir(projectPath, { recursive: true });
+    await fs.writeFile(
+      path.join(projectPath, 'package.json'),
+      JSON.stringify({ name: 'auth-without-db', dependencies: { next: '16.0.0', 'better-auth': '^1' } })
+    );
+
+    const result = await client.callTool('detect_project_config', { projectPath, writeManifest: true });
+
+    expect(client.isSuccess(result)).toBe(true);
+
+    const text = client.getTextContent(result);
+    expect(text).toContain('architecture.auth: Better Auth requires a database');
+    expect(text).toContain('Not saved to .next-mcp.json');
+    expect(await fileExists(path.join(projectPath, '.next-mcp.json'))).toBe(false);
+  });
+
+  it('should fail when there is no package.json', async () => {
+    const result = await client.callTool('detect_project_config', { projectPath: path.join(tempDir, 'missing') });
+
+    expect(client.isSuccess(result)).toBe(false);
+    expect(client.getTextContent(result)).toContain('No package.json found');
+  });
+});
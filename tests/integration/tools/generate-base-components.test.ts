@@ -1,3 +1,4 @@
+import fs from 'node:fs/promises';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 
@@ -12,7 +13,7 @@ const __dirname = path.dirname(__filename);
 describe('generate_base_components tool', () => {
   let client: MCPTestClient;
   let tempDir: string;
-  const serverPath = path.join(__dirname, '../../../dist/index.js');
+  const serverPath = path.join(__dirname, '../../../dist/cli.js');
 
   beforeAll(async () => {
     client = new MCPTestClient();
@@ -96,4 +97,34 @@ describe('generate_base_components tool', () => {
     expect(text).toBeDefined();
     expect(text).toContain('Created authentication-related components');
   });
+
+  it('should generate JavaScript files when TypeScript is disabled', async () => {
+    const projectName = `base-components-js-test_${Date.now()}`;
+    const projectPath = path.join(tempDir, projectName);
+    await fs.mkdir(path.join(projectPath, 'src/app'), { recursive: true });
+    await fs.mkdir(path.join(projectPath, 'src/components/ui'), { recursive: true });
+
+    const config = createMockConfig({
+      name: projectName,
+      architecture: {
+        typescript: false,
+        uiLibrary: 'none',
+      },
+    });
+
+    const result = await client.callTool('generate_base_components', { config, projectPath });
+
+    expect(client.isSuccess(result)).toBe(true);
+
+    const page = await fs.readFile(path.join(projectPath, 'src/app/page.jsx'), 'utf-8');
+    expect(page).toContain('export default function');
+    await expect(fs.access(path.join(projectPath, 'src/app/page.tsx'))).rejects.toThrow();
+
+    const route = await fs.readFile(path.join(projectPath, 'src/app/api/health/route.js'), 'utf-8');
+    expect(route).toContain('export async function GET');
+
+    const button = await fs.readFile(path.join(projectPath, 'src/components/ui/button.jsx'), 'utf-8');
+    expect(button).not.toContain('interface');
+    expect(button).not.toMatch(/: React\./);
+  });
 });
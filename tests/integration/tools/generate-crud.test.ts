@@ -0,0 +1,206 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { MCPTestClient } from '../../helpers/mcp-test-client.js';
+import {
+  cleanupTempDir,
+  createMockConfig,
+  createPackageJson,
+  createTempDir,
+  fileExists,
+  readFile,
+} from '../../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+type ToolOutput = { status: string; warnings: string[] };
+
+const POST_MODEL = {
+  name: 'Post',
+  fields: [
+    { name: 'title', type: 'string' },
+    { name: 'body', type: 'text', optional: true },
+    { name: 'published', type: 'boolean', default: false },
+    { name: 'metadata', type: 'json', optional: true },
+  ],
+  relations: [{ name: 'author', model: 'User' }],
+};
+
+describe('generate_crud tool', () => {
+  let client: MCPTestClient;
+  let tempDir: string;
+  const serverPath = path.join(__dirname, '../../../dist/cli.js');
+
+  beforeAll(async () => {
+    client = new MCPTestClient();
+    await client.connect(serverPath);
+    tempDir = await createTempDir();
+  }, 30000);
+
+  afterAll(async () => {
+    await client.disconnect();
+    await cleanupTempDir(tempDir);
+  });
+
+  const createProject = async (name: string, files: Record<string, string>) => {
+    const projectPath = path.join(tempDir, name);
+    await fs.mkdir(projectPath, { recursive: true });
+    for (const [file, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(projectPath, file)), { recursive: true });
+      await fs.writeFile(path.join(projectPath, file), content);
+    }
+    await createPackageJson(projectPath, { name });
+    return projectPath;
+  };
+
+  // Adds the model with generate_model, as a project would before generating its resource
+  const createProjectWithModel = async (
+    name: string,
+    architecture: Record<string, unknown>,
+    files: Record<string, string> = {}
+  ) => {
+    const projectPath = await createProject(name, files);
+    const config = createMockConfig({ name, architecture });
+    const result = await client.callTool('generate_model', { config, projectPath, model: POST_MODEL });
+    expect(client.isSuccess(result)).toBe(true);
+    return { projectPath, config };
+  };
+
+  it('should generate a shadcn resource on a Prisma model behind the auth proxy', async () => {
+    const { projectPath, config } = await createProjectWithModel(
+      'crud-prisma',
+      { database: 'postgres', orm: 'prisma', uiLibrary: 'shadcn', auth: 'better-auth', skipInstall: true },
+      {
+        'prisma/schema.prisma': 'model User {\n  id String @id @default(uuid())\n}\n',
+        'src/proxy.ts': "const publicRoutes = ['/auth', '/api/auth', '/api/health'];\n",
+      }
+    );
+
+    const result = await client.callTool('generate_crud', { config, projectPath, model: POST_MODEL });
+
+    expect(client.isSuccess(result)).toBe(true);
+    expect(client.getTextContent(result)).toContain('require a signed-in user through src/proxy.ts');
+    const output = result.structuredContent as ToolOutput;
+    expect(output.warnings).toEqual([expect.stringContaining('metadata is a json field')]);
+
+    const validation = await readFile(path.join(projectPath, 'src/lib/validations/post.ts'));
+    expect(validation).toContain("title: z.string().trim().max(255).min(1, 'Required'),");
+    expect(validation).toContain('body: z.preprocess(emptyToNull, z.string().trim().nullish()),');
+    expect(validation).toContain("authorId: z.string().trim().min(1, 'Required'),");
+    expect(validation).not.toContain('metadata');
+
+    const data = await readFile(path.join(projectPath, 'src/lib/db/posts.ts'));
+    expect(data).toContain("return prisma.post.findMany({ orderBy: { createdAt: 'desc' } });");
+    expect(data).toContain('export type PostRecord');
+
+    const form = await readFile(path.join(projectPath, 'src/components/posts/post-form.tsx'));
+    expect(form).toContain('resolver: zodResolver(postSchema)');
+    expect(form).toContain("import { Checkbox } from '@/components/ui/checkbox';");
+    expect(form).toContain('<Textarea {...field}');
+
+    const table = await readFile(path.join(projectPath, 'src/components/posts/posts-table.tsx'));
+    expect(table).toContain('useReactTable');
+    expect(table).toContain("accessorKey: 'published'");
+
+    for (const file of ['route.ts', '[id]/route.ts']) {
+      expect(await fileExists(path.join(projectPath, 'src/app/api/posts', file))).toBe(true);
+    }
+    for (const file of ['actions.ts', 'page.tsx', 'new/page.tsx', '[id]/page.tsx', '[id]/edit/page.tsx']) {
+      expect(await fileExists(path.join(projectPath, 'src/app/posts', file))).toBe(true);
+    }
+
+    const packageJson = JSON.parse(await readFile(path.join(projectPath, 'package.json')));
+    expect(packageJson.dependencies).toMatchObject({
+      zod: expect.any(String),
+      'react-hook-form': expect.any(String),
+      '@hookform/resolvers': expect.any(String),
+      '@tanstack/react-table': expect.any(String),
+    });
+  });
+
+  it('should generate plain JavaScript pages on a Drizzle model without shadcn', async () => {
+    const { projectPath, config } = await createProjectWithModel(
+      'crud-drizzle',
+      { database: 'sqlite', orm: 'drizzle', uiLibrary: 'none', auth: 'none', typescript: false },
+      { 'src/lib/db/schema.js': "import { sqliteTable } from 'drizzle-orm/sqlite-core';\n" }
+    );
+
+    const result = await client.callTool('generate_crud', { config, projectPath, model: POST_MODEL });
+
+    expect(client.isSuccess(result)).toBe(true);
+    const data = await readFile(path.join(projectPath, 'src/lib/db/posts.js'));
+    expect(data).toContain('await db.insert(posts).values(data).returning()');
+    expect(data).not.toContain('PostInput');
+
+    const form = await readFile(path.join(projectPath, 'src/components/posts/post-form.jsx'));
+    expect(form).toContain("published: formData.get('published') === 'on',");
+    expect(form).not.toContain('react-hook-form');
+    expect(await readFile(path.join(projectPath, 'src/app/posts/page.jsx'))).toContain('<table');
+    expect(await fileExists(path.join(projectPath, 'src/components/posts/posts-table.jsx'))).toBe(false);
+
+    const packageJson = JSON.parse(await readFile(path.join(projectPath, 'package.json')));
+    expect(packageJson.dependencies.zod).toBeDefined();
+    expect(packageJson.dependencies['react-hook-form']).toBeUndefined();
+  });
+
+  it('should return plain records from a Mongoose model', async () => {
+    const { projectPath, config } = await createProjectWithModel(
+      'crud-mongoose',
+      { database: 'mongodb', orm: 'mongoose', uiLibrary: 'shadcn', auth: 'none' },
+      { 'src/lib/db/index.ts': "export { default as connectDB } from './connection';\n" }
+    );
+
+    const result = await client.callTool('generate_crud', { config, projectPath, model: POST_MODEL });
+
+    expect(client.isSuccess(result)).toBe(true);
+    const data = await readFile(path.join(projectPath, 'src/lib/db/posts.ts'));
+    expect(data).toContain("import { Post } from './models/post';");
+    expect(data).toContain('author: author.toString(),');
+    expect(await readFile(path.join(projectPath, 'src/lib/validations/post.ts'))).toContain('author: z.string()');
+  });
+
+  it('should warn when the proxy makes the resource public', async () => {
+    const { projectPath, config } = await createProjectWithModel(
+      'crud-public',
+      { database: 'postgres', orm: 'drizzle', uiLibrary: 'none', auth: 'better-auth' },
+      {
+        'src/lib/db/schema.ts': "import { pgTable } from 'drizzle-orm/pg-core';\n",
+        'src/proxy.ts': "const publicRoutes = ['/auth', '/api'];\n",
+      }
+    );
+
+    const result = await client.callTool('generate_crud', { config, projectPath, model: POST_MODEL });
+
+    expect(client.isSuccess(result)).toBe(true);
+    expect((result.structuredContent as ToolOutput).warnings).toContainEqual(
+      'publicRoutes in src/proxy.ts includes /api, so /api/posts can be used signed out'
+    );
+  });
+
+  it('should fail until the model exists', async () => {
+    const projectPath = await createProject('crud-missing', {
+      'prisma/schema.prisma': 'model User {\n  id String @id @default(uuid())\n}\n',
+    });
+    const config = createMockConfig({ architecture: { database: 'postgres', orm: 'prisma', auth: 'none' } });
+
+    const result = await client.callTool('generate_crud', { config, projectPath, model: POST_MODEL });
+
+    expect(client.isSuccess(result)).toBe(false);
+    expect(client.getTextContent(result)).toContain('Model Post not found in prisma/schema.prisma');
+    expect(await fileExists(path.join(projectPath, 'src/app/posts'))).toBe(false);
+  });
+  it('should report that Kysely projects are not supported', async () => {
+    const projectPath = await createProject('crud-kysely', {});
+    const config = createMockConfig({ architecture: { database: 'postgres', orm: 'kysely', auth: 'none' } });
+
+    const result = await client.callTool('generate_crud', { config, projectPath, model: POST_MODEL });
+
+    expect(result.isError).toBe(true);
+    expect(client.getTextContent(result)).toContain('generate_crud is not supported for kysely');
+    expect(await fileExists(path.join(projectPath, 'src/app/posts'))).toBe(false);
+  });
+});
@@ -12,7 +12,7 @@ const __dirname = path.dirname(__filename);
 describe('generate_dockerfile tool', () => {
   let client: MCPTestClient;
   let tempDir: string;
-  const serverPath = path.join(__dirname, '../../../dist/index.js');
+  const serverPath = path.join(__dirname, '../../../dist/cli.js');
 
   beforeAll(async () => {
     client = new MCPTestClient();
@@ -83,6 +83,7 @@ describe('generate_dockerfile tool', () => {
       architecture: {
         database: 'none',
         orm: 'none',
+        auth: 'none',
       },
     });
 
@@ -122,4 +123,98 @@ describe('generate_dockerfile tool', () => {
       expect(dockerfile.length).toBeGreaterThan(0);
     }
   });
+
+  it('should add a migrate service that can run the seed', async () => {
+    const setups = [
+      { orm: 'prisma', database: 'postgres', command: 'npx prisma migrate deploy && if' },
+      { orm: 'drizzle', database: 'mysql', command: 'npx drizzle-kit migrate && if' },
+      { orm: 'kysely', database: 'sqlite', command: 'npx kysely migrate:latest && if' },
+      { orm: 'mongoose', database: 'mongodb', command: '"sh", "-c", "if' },
+    ] as const;
+
+    for (const { orm, database, command } of setups) {
+      const config = createMockConfig({ architecture: { database, orm, auth: 'none' } });
+
+      const result = await client.callTool('generate_dockerfile', { config, projectPath: tempDir });
+
+      expect(client.isSuccess(result)).toBe(true);
+      const migrate = await readFile(path.join(tempDir, 'Dockerfile.migrate'));
+      expect(migrate).toContain(command);
+      expect(migrate).toContain('pnpm run db:seed');
+      const dockerCompose = await readFile(path.join(tempDir, 'docker-compose.yml'));
+      expect(dockerCompose).toContain('dockerfile: Dockerfile.migrate');
+      expect(dockerCompose).toContain('- SEED=${SEED:-false}');
+    }
+  });
+
+  it('should install and seed with the configured package manager in the migrate image', async () => {
+    const setups = [
+      { packageManager: 'npm', install: 'RUN npm ci', lockfiles: 'COPY package.json package-lock.json ./' },
+      {
+        packageManager: 'yarn',
+        install: 'RUN yarn install --frozen-lockfile',
+        lockfiles: 'COPY package.json yarn.lock ./',
+      },
+      {
+        packageManager: 'bun',
+        install: 'RUN bun install --frozen-lockfile',
+        lockfiles: 'COPY package.json bun.lock* ./',
+      },
+    ] as const;
+
+    for (const { packageManager, install, lockfiles } of setups) {
+      const config = createMockConfig({ architecture: { packageManager, database: 'postgres', orm: 'drizzle' } });
+
+      const result = await client.callTool('generate_dockerfile', { config, projectPath: tempDir });
+
+      expect(client.isSuccess(result)).toBe(true);
+      const migrate = await readFile(path.join(tempDir, 'Dockerfile.migrate'));
+      expect(migrate).toContain(lockfiles);
+      expect(migrate).toContain(install);
+      expect(migrate).toContain(`${packageManager} run db:seed`);
+      expect(migrate).not.toContain('pnpm');
+    }
+  });
+
+  it('should use the requested base image', async () => {
+    const config = createMockConfig();
+
+    const result = await client.callTool('generate_dockerfile', {
+      config,
+      projectPath: tempDir,
+      baseImage: 'node:24-bookworm-slim',
+    });
+
+    expect(client.isSuccess(result)).toBe(true);
+    expect(client.getTextContent(result)).toContain('node:24-bookworm-slim');
+
+    const dockerfile = await readFile(path.join(tempDir, 'Dockerfile'));
+    expect(dockerfile).toContain('FROM node:24-bookworm-slim AS base');
+    expect(dockerfile).not.toContain('apk add');
+  });
+
+  it('should default to the alpine base image', async () => {
+    const config = createMockConfig();
+
+    const result = await client.callTool('generate_dockerfile', { config, projectPath: tempDir });
+
+    expect(client.isSuccess(result)).toBe(true);
+
+    const dockerfile = await readFile(path.join(tempDir, 'Dockerfile'));
+    expect(dockerfile).toContain('FROM node:24-alpine AS base');
+    expect(dockerfile).toContain('apk add --no-cache libc6-compat');
+  });
+
+  it('should reject an invalid base image', async () => {
+    const config = createMockConfig();
+
+    const result = await client.callTool('generate_dockerfile', {
+      config,
+      projectPath: tempDir,
+      baseImage: 'node 24; rm -rf /',
+    });
+
+    expect(client.isSuccess(result)).toBe(false);
+    expect(client.getTextContent(result)).toContain('baseImage');
+  });
 });
@@ -0,0 +1,199 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { MCPTestClient } from '../../helpers/mcp-test-client.js';
+import {
+  cleanupTempDir,
+  createMockConfig,
+  createPackageJson,
+  createTempDir,
+  readFile,
+} from '../../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+type ToolOutput = { status: string; warnings: string[] };
+
+const POST_MODEL = {
+  name: 'Post',
+  fields: [
+    { name: 'title', type: 'string' },
+    { name: 'slug', type: 'string', unique: true },
+    { name: 'body', type: 'text', optional: true },
+    { name: 'published', type: 'boolean', default: false },
+  ],
+  relations: [{ name: 'author', model: 'User' }],
+  indexes: [{ fields: ['author', 'published'] }],
+};
+
+const USER_SCHEMA = `model User {
+  id    String @id @default(uuid())
+  email String @unique
+}
+`;
+
+describe('generate_model tool', () => {
+  let client: MCPTestClient;
+  let tempDir: string;
+  const serverPath = path.join(__dirname, '../../../dist/cli.js');
+
+  beforeAll(async () => {
+    client = new MCPTestClient();
+    await client.connect(serverPath);
+    tempDir = await createTempDir();
+  }, 30000);
+
+  afterAll(async () => {
+    await client.disconnect();
+    await cleanupTempDir(tempDir);
+  });
+
+  const createProject = async (name: string, files: Record<string, string>) => {
+    const projectPath = path.join(tempDir, name);
+    await fs.mkdir(projectPath, { recursive: true });
+    for (const [file, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(projectPath, file)), { recursive: true });
+      await fs.writeFile(path.join(projectPath, file), content);
+    }
+    await createPackageJson(projectPath, { name });
+    return projectPath;
+  };
+
+  it('should add a Prisma model with the back-relation on the related model', async () => {
+    const projectPath = await createProject('model-prisma', { 'prisma/schema.prisma': USER_SCHEMA });
+    // skipInstall leaves prisma generate as a next step, so no Prisma CLI is downloaded
+    const config = createMockConfig({
+      architecture: { database: 'postgres', orm: 'prisma', auth: 'none', skipInstall: true },
+    });
+
+    const result = await client.callTool('generate_model', { config, projectPath, model: POST_MODEL });
+
+    expect(client.isSuccess(result)).toBe(true);
+    const schema = await readFile(path.join(projectPath, 'prisma/schema.prisma'));
+    expect(schema).toContain('model Post {');
+    expect(schema).toContain('slug      String   @unique');
+    expect(schema).toContain('body      String?  @db.Text');
+    expect(schema).toContain('author    User     @relation(fields: [authorId], references: [id])');
+    expect(schema).toContain('@@index([authorId, published])');
+    expect(schema).toMatch(/model User \{[^}]*posts Post\[\]\n\}/);
+    expect(client.getTextContent(result)).toContain('Generate the client');
+  });
+
+  it('should add a Drizzle table and merge the builder imports', async () => {
+    const projectPath = await createProject('model-drizzle', {
+      'src/lib/db/schema.ts': `import { pgTable, text } from 'drizzle-orm/pg-core';
+
+export const user = pgTable('user', {
+  id: text('id').primaryKey(),
+  email: text('email').notNull().unique(),
+});
+`,
+    });
+    const config = createMockConfig({ architecture: { database: 'postgres', orm: 'drizzle', auth: 'none' } });
+
+    const result = await client.callTool('generate_model', {
+      config,
+      projectPath,
+      model: { ...POST_MODEL, indexes: [{ fields: ['slug', 'author'], unique: true }] },
+    });
+
+    expect(client.isSuccess(result)).toBe(true);
+    const schema = await readFile(path.join(projectPath, 'src/lib/db/schema.ts'));
+    expect(schema).toContain(
+      "import { boolean, pgTable, text, timestamp, uniqueIndex, uuid, varchar } from 'drizzle-orm/pg-core';"
+    );
+    expect(schema).toContain("export const posts = pgTable('posts', {");
+    expect(schema).toContain("slug: varchar('slug', { length: 255 }).notNull().unique(),");
+    expect(schema).toContain("published: boolean('published').notNull().default(false),");
+    // The foreign key matches the type of better-auth's text id
+    expect(schema).toContain("authorId: text('author_id').notNull().references(() => user.id),");
+    expect(schema).toContain("uniqueIndex('posts_slug_author_id_idx').on(table.slug, table.authorId),");
+  });
+
+  it('should use SQLite column modes and warn about a missing related table', async () => {
+    const projectPath = await createProject('model-drizzle-sqlite', {
+      'src/lib/db/schema.ts': "import { sqliteTable } from 'drizzle-orm/sqlite-core';\n",
+    });
+    const config = createMockConfig({ architecture: { database: 'sqlite', orm: 'drizzle', auth: 'none' } });
+
+    const result = await client.callTool('generate_model', { config, projectPath, model: POST_MODEL });
+
+    expect(client.isSuccess(result)).toBe(true);
+    const schema = await readFile(path.join(projectPath, 'src/lib/db/schema.ts'));
+    expect(schema).toContain("published: integer('published', { mode: 'boolean' }).notNull().default(false),");
+    expect(schema).toContain("authorId: text('author_id').notNull(),");
+    expect(schema).toContain('.$defaultFn(() => new Date())');
+    expect((result.structuredContent as ToolOutput).warnings).toContainEqual(
+      expect.stringContaining('No table for User')
+    );
+  });
+
+  it('should write a Mongoose model and export it', async () => {
+    const projectPath = await createProject('model-mongoose', {
+      'src/lib/db/index.ts': "export { default as connectDB } from './connection';\n",
+    });
+    const config = createMockConfig({ architecture: { database: 'mongodb', orm: 'mongoose', auth: 'none' } });
+
+    const result = await client.callTool('generate_model', {
+      config,
+      projectPath,
+      model: { ...POST_MODEL, name: 'BlogPost' },
+    });
+
+    expect(client.isSuccess(result)).toBe(true);
+    const model = await readFile(path.join(projectPath, 'src/lib/db/models/blog-post.ts'));
+    expect(model).toContain("author: { type: Schema.Types.ObjectId, ref: 'User', required: true },");
+    expect(model).toContain('blogPostSchema.index({ author: 1, published: 1 });');
+    expect(model).toContain('mongoose.models.BlogPost || mongoose.model<BlogPost>');
+    expect(await readFile(path.join(projectPath, 'src/lib/db/index.ts'))).toContain(
+      "export * from './models/blog-post';"
+    );
+  });
+
+  it('should fail for projects without an ORM or with the model already defined', async () => {
+    const noOrm = await createProject('model-no-orm', {});
+    const noOrmResult = await client.callTool('generate_model', {
+      config: createMockConfig({ architecture: { database: 'postgres', orm: 'none', auth: 'none' } }),
+      projectPath: noOrm,
+      model: POST_MODEL,
+    });
+    expect(client.isSuccess(noOrmResult)).toBe(false);
+    expect(client.getTextContent(noOrmResult)).toContain('Models need an ORM');
+
+    const kysely = await createProject('model-kysely', {});
+    const kyselyResult = await client.callTool('generate_model', {
+      config: createMockConfig({ architecture: { database: 'postgres', orm: 'kysely', auth: 'none' } }),
+      projectPath: kysely,
+      model: POST_MODEL,
+    });
+    expect(kyselyResult.isError).toBe(true);
+    expect(client.getTextContent(kyselyResult)).toContain('generate_model is not supported for kysely');
+
+    const duplicate = await createProject('model-duplicate', { 'prisma/schema.prisma': USER_SCHEMA });
+    const duplicateResult = await client.callTool('generate_model', {
+      config: createMockConfig({ architecture: { database: 'postgres', orm: 'prisma', skipInstall: true } }),
+      projectPath: duplicate,
+      model: { name: 'User', fields: [{ name: 'name', type: 'string' }] },
+    });
+    expect(client.isSuccess(duplicateResult)).toBe(false);
+    expect(client.getTextContent(duplicateResult)).toContain('Model User already exists');
+  });
+
+  it('should reject index fields that are not in the model', async () => {
+    const projectPath = await createProject('model-invalid', {});
+    const config = createMockConfig({ architecture: { database: 'postgres', orm: 'prisma', auth: 'none' } });
+
+    const result = await client.callTool('generate_model', {
+      config,
+      projectPath,
+      model: { ...POST_MODEL, indexes: [{ fields: ['missing'] }] },
+    });
+
+    expect(client.isSuccess(result)).toBe(false);
+    expect(client.getTextContent(result)).toContain('model.indexes.0.fields.0');
+  });
+});
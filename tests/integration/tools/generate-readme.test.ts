@@ -12,7 +12,7 @@ const __dirname = path.dirname(__filename);
 describe('generate_readme tool', () => {
   let client: MCPTestClient;
   let tempDir: string;
-  const serverPath = path.join(__dirname, '../../../dist/index.js');
+  const serverPath = path.join(__dirname, '../../../dist/cli.js');
 
   beforeAll(async () => {
     client = new MCPTestClient();
@@ -30,6 +30,7 @@ describe('generate_readme tool', () => {
       name: 'test-readme-app',
       architecture: {
         database: 'none',
+        orm: 'none',
         auth: 'none',
         testing: 'none',
       },
@@ -0,0 +1,58 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { MCPTestClient } from '../../helpers/mcp-test-client.js';
+import { cleanupTempDir, createTempDir } from '../../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('list_presets tool', () => {
+  let client: MCPTestClient;
+  let tempDir: string;
+  const serverPath = path.join(__dirname, '../../../dist/cli.js');
+
+  beforeAll(async () => {
+    tempDir = await createTempDir();
+    const presetsDir = path.join(tempDir, '.next-mcp', 'presets');
+    await fs.mkdir(presetsDir, { recursive: true });
+    await fs.writeFile(
+      path.join(presetsDir, 'agency.json'),
+      JSON.stringify({ description: 'Client sites', architecture: { database: 'none', orm: 'none', auth: 'none' } })
+    );
+    await fs.writeFile(path.join(presetsDir, 'broken.json'), '{ not json');
+
+    client = new MCPTestClient();
+    await client.connect(serverPath, { env: { HOME: tempDir } });
+  }, 30000);
+
+  afterAll(async () => {
+    await client.disconnect();
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should list built-in and user presets', async () => {
+    const result = await client.callTool('list_presets', {});
+
+    expect(client.isSuccess(result)).toBe(true);
+
+    const text = client.getTextContent(result);
+    expect(text).toContain('- saas-starter (built-in)');
+    expect(text).toContain('- agency (user): Client sites');
+    expect(text).toContain('database: none, orm: none, auth: none');
+    expect(text).not.toContain('broken');
+  });
+
+  it('should name the available presets when a config references an unknown one', async () => {
+    const result = await client.callTool('check_config', { config: { preset: 'nope', architecture: {} } });
+
+    expect(client.isSuccess(result)).toBe(false);
+
+    const text = client.getTextContent(result);
+    expect(text).toContain('config.preset: Unknown preset "nope"');
+    expect(text).toContain('agency');
+  });
+});
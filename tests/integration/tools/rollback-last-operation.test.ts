@@ -0,0 +1,96 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { MCPTestClient } from '../../helpers/mcp-test-client.js';
+import {
+  cleanupTempDir,
+  createMockConfig,
+  createPackageJson,
+  createTempDir,
+  dirExists,
+  fileExists,
+  readFile,
+} from '../../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('rollback_last_operation tool', () => {
+  let client: MCPTestClient;
+  let tempDir: string;
+  const serverPath = path.join(__dirname, '../../../dist/cli.js');
+
+  beforeAll(async () => {
+    client = new MCPTestClient();
+    await client.connect(serverPath);
+    tempDir = await createTempDir();
+  }, 30000);
+
+  afterAll(async () => {
+    await client.disconnect();
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should restore files automatically when a tool fails halfway', async () => {
+    const projectPath = path.join(tempDir, 'auth-rollback');
+    const layout = 'export default function RootLayout({ children }) {\n  return <body>{children}</body>;\n}\n';
+    await fs.mkdir(path.join(projectPath, 'src/app'), { recursive: true });
+    await createPackageJson(projectPath);
+    await fs.writeFile(path.join(projectPath, '.env'), 'DATABASE_URL="postgresql://localhost/app"\n');
+    await fs.writeFile(path.join(projectPath, 'src/app/layout.tsx'), layout);
+    // No globals.css, so setup_authentication fails after writing .env files, auth files and layout.tsx
+
+    const config = createMockConfig({
+      name: 'auth-rollback',
+      architecture: { database: 'postgres', orm: 'drizzle', auth: 'better-auth' },
+    });
+
+    const result = await client.callTool('setup_authentication', { config, projectPath });
+
+    expect(client.isSuccess(result)).toBe(false);
+    expect(JSON.stringify(result)).toContain('Rolled back');
+
+    expect(await readFile(path.join(projectPath, '.env'))).toBe('DATABASE_URL="postgresql://localhost/app"\n');
+    expect(await readFile(path.join(projectPath, 'src/app/layout.tsx'))).toBe(layout);
+    expect(await fileExists(path.join(projectPath, '.env.local'))).toBe(false);
+    expect(await fileExists(path.join(projectPath, 'src/lib/auth.ts'))).toBe(false);
+    expect(await dirExists(path.join(projectPath, 'src/providers'))).toBe(false);
+  });
+
+  it('should undo the most recent successful operation', async () => {
+    const projectPath = path.join(tempDir, 'docker-rollback');
+    await fs.mkdir(projectPath, { recursive: true });
+    await fs.writeFile(path.join(projectPath, 'Dockerfile'), 'FROM scratch\n');
+
+    const config = createMockConfig({ name: 'docker-rollback' });
+    await client.callTool('generate_dockerfile', { config, projectPath });
+    expect(await fileExists(path.join(projectPath, 'docker-compose.yml'))).toBe(true);
+
+    const result = await client.callTool('rollback_last_operation', { projectPath });
+
+    expect(client.isSuccess(result)).toBe(true);
+    expect(client.getTextContent(result)).toContain('Rolled back generate_dockerfile');
+    expect(await readFile(path.join(projectPath, 'Dockerfile'))).toBe('FROM scratch\n');
+    expect(await fileExists(path.join(projectPath, 'docker-compose.yml'))).toBe(false);
+
+    const nothingLeft = await client.callTool('rollback_last_operation', { projectPath });
+    expect(client.getTextContent(nothingLeft)).toContain('No recorded operations to roll back');
+  });
+
+  it('should leave files that changed after the operation untouched', async () => {
+    const projectPath = path.join(tempDir, 'readme-rollback');
+    await fs.mkdir(projectPath, { recursive: true });
+
+    const config = createMockConfig({ name: 'readme-rollback' });
+    await client.callTool('generate_readme', { config, projectPath });
+    await fs.writeFile(path.join(projectPath, 'README.md'), '# Edited by hand\n');
+
+    const result = await client.callTool('rollback_last_operation', { projectPath });
+
+    expect(client.getTextContent(result)).toContain('Left untouched');
+    expect(await readFile(path.join(projectPath, 'README.md'))).toBe('# Edited by hand\n');
+  });
+});
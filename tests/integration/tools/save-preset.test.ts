@@ -0,0 +1,108 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { MCPTestClient } from '../../helpers/mcp-test-client.js';
+import { cleanupTempDir, createMockConfig, createTempDir, readFile } from '../../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('save_preset tool', () => {
+  let client: MCPTestClient;
+  let tempDir: string;
+  let presetsDir: string;
+  const serverPath = path.join(__dirname, '../../../dist/cli.js');
+
+  beforeAll(async () => {
+    tempDir = await createTempDir();
+    presetsDir = path.join(tempDir, '.next-mcp', 'presets');
+    client = new MCPTestClient();
+    // Presets are stored under the home directory, so give the server its own
+    await client.connect(serverPath, { env: { HOME: tempDir } });
+  }, 30000);
+
+  afterAll(async () => {
+    await client.disconnect();
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should save the architecture of a config', async () => {
+    const config = createMockConfig({
+      architecture: { database: 'mysql', orm: 'drizzle', auth: 'none' },
+    });
+
+    const result = await client.callTool('save_preset', { name: 'team-stack', description: 'Our usual stack', config });
+
+    expect(client.isSuccess(result)).toBe(true);
+    expect(client.getTextContent(result)).toContain('Saved preset "team-stack"');
+
+    const preset = JSON.parse(await readFile(path.join(presetsDir, 'team-stack.json')));
+    expect(preset.description).toBe('Our usual stack');
+    expect(preset.architecture).toMatchObject({ database: 'mysql', orm: 'drizzle', auth: 'none' });
+  });
+
+  it('should merge the preset underneath a config that references it', async () => {
+    const result = await client.callTool('check_config', {
+      config: { preset: 'team-stack', architecture: { testing: 'jest' } },
+    });
+
+    expect(client.isSuccess(result)).toBe(true);
+
+    const text = client.getTextContent(result);
+    expect(text).toContain('"preset": "team-stack"');
+    expect(text).toContain('"orm": "drizzle"');
+    expect(text).toContain('"testing": "jest"');
+  });
+
+  it('should save the config recorded in a project manifest', async () => {
+    const projectPath = path.join(tempDir, 'existing-app');
+    const config = createMockConfig({
+      name: 'existing-app',
+      architecture: { database: 'mongodb', orm: 'mongoose', auth: 'none' },
+    });
+    await fs.mkdir(projectPath, { recursive: true });
+    await fs.writeFile(
+      path.join(projectPath, '.next-mcp.json'),
+      JSON.stringify({ version: '1.0.0', config, tools: {}, files: {} })
+    );
+
+    const result = await client.callTool('save_preset', { name: 'mongo-stack', projectPath });
+
+    expect(client.isSuccess(result)).toBe(true);
+
+    const preset = JSON.parse(await readFile(path.join(presetsDir, 'mongo-stack.json')));
+    expect(preset.architecture.orm).toBe('mongoose');
+  });
+
+  it('should reject an invalid preset name', async () => {
+    const result = await client.callTool('save_preset', { name: '../My Preset', config: createMockConfig() });
+
+    expect(client.isSuccess(result)).toBe(false);
+    expect(client.getTextContent(result)).toContain('- name:');
+  });
+
+  it('should apply the default preset only to the config of a new project', async () => {
+    const config = createMockConfig({
+      architecture: { database: 'sqlite', orm: 'prisma', auth: 'none' },
+    });
+    await client.callTool('save_preset', { name: 'default', config });
+
+    const checked = client.getTextContent(
+      await client.callTool('check_config', { config: { architecture: { testing: 'playwright' } } })
+    );
+    expect(checked).not.toContain('"preset": "default"');
+    expect(checked).toContain('"database": "postgres"');
+
+    const scaffolded = await client.callTool('scaffold_project', {
+      config: { name: 'default-preset-app', architecture: { testing: 'playwright' } },
+      targetPath: tempDir,
+      dryRun: true,
+    });
+    const plan = client.getTextContent(scaffolded);
+    expect(plan).toContain('+ dependencies.@prisma/adapter-better-sqlite3');
+    expect(plan).toContain('+ devDependencies.@playwright/test');
+  });
+});
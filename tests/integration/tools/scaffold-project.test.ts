@@ -4,7 +4,13 @@ import { fileURLToPath } from 'node:url';
 import { afterAll, beforeAll, describe, expect, it } from 'vitest';
 
 import { MCPTestClient } from '../../helpers/mcp-test-client.js';
-import { cleanupTempDir, createMockConfig, createTempDir, TestProjectConfig } from '../../helpers/test-utils.js';
+import {
+  cleanupTempDir,
+  createMockConfig,
+  createTempDir,
+  dirExists,
+  TestProjectConfig,
+} from '../../helpers/test-utils.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -12,7 +18,7 @@ const __dirname = path.dirname(__filename);
 describe('scaffold_project tool', () => {
   let client: MCPTestClient;
   let tempDir: string;
-  const serverPath = path.join(__dirname, '../../../dist/index.js');
+  const serverPath = path.join(__dirname, '../../../dist/cli.js');
 
   beforeAll(async () => {
     client = new MCPTestClient();
@@ -100,4 +106,21 @@ describe('scaffold_project tool', () => {
       expect(text).toContain('Successfully created Next.js project');
     }
   }, 60000);
+
+  it('should reject an ORM that does not support the database', async () => {
+    const result = await client.callTool('scaffold_project', {
+      config: {
+        name: 'mongoose-on-postgres',
+        architecture: { database: 'postgres', orm: 'mongoose' },
+      },
+      targetPath: tempDir,
+    });
+
+    expect(client.isSuccess(result)).toBe(false);
+
+    const text = client.getTextContent(result);
+    expect(text).toContain('config.architecture.orm: mongoose does not support postgres');
+    expect(text).toContain('Set database to "mongodb"');
+    expect(await dirExists(path.join(tempDir, 'mongoose-on-postgres'))).toBe(false);
+  });
 });
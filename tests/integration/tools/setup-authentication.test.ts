@@ -1,10 +1,11 @@
+import fs from 'node:fs/promises';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 
 import { afterAll, beforeAll, describe, expect, it } from 'vitest';
 
 import { MCPTestClient } from '../../helpers/mcp-test-client.js';
-import { cleanupTempDir, createMockConfig, createTempDir } from '../../helpers/test-utils.js';
+import { cleanupTempDir, createMockConfig, createTempDir, readFile } from '../../helpers/test-utils.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -12,7 +13,7 @@ const __dirname = path.dirname(__filename);
 describe('setup_authentication tool', () => {
   let client: MCPTestClient;
   let tempDir: string;
-  const serverPath = path.join(__dirname, '../../../dist/index.js');
+  const serverPath = path.join(__dirname, '../../../dist/cli.js');
 
   beforeAll(async () => {
     client = new MCPTestClient();
@@ -67,24 +68,111 @@ describe('setup_authentication tool', () => {
     expect(text).toContain('Better Auth + Better Auth UI has been configured successfully');
   });
 
-  it('should handle better-auth without database', async () => {
+  it('should reject better-auth without database', async () => {
+    const result = await client.callTool('setup_authentication', {
+      config: {
+        architecture: {
+          database: 'none',
+          orm: 'none',
+          auth: 'better-auth',
+        },
+      },
+      projectPath: tempDir,
+    });
+
+    expect(client.isSuccess(result)).toBe(false);
+
+    const text = client.getTextContent(result);
+    expect(text).toBeDefined();
+    expect(text).toContain('config.architecture.auth: Better Auth requires a database');
+  });
+
+  it('should configure the requested social providers', async () => {
+    const projectName = 'auth-providers-project';
+    const projectPath = path.join(tempDir, projectName);
     const config = createMockConfig({
+      name: projectName,
       architecture: {
-        database: 'none',
-        orm: 'none',
+        database: 'postgres',
+        orm: 'drizzle',
         auth: 'better-auth',
       },
     });
 
+    await client.callTool('scaffold_project', { config, targetPath: tempDir });
+
     const result = await client.callTool('setup_authentication', {
       config,
-      projectPath: tempDir,
+      projectPath,
+      providers: ['github', 'google'],
     });
 
-    expect(client.isSuccess(result)).toBe(false);
+    expect(client.isSuccess(result)).toBe(true);
+    expect(client.getTextContent(result)).toContain('http://localhost:3000/api/auth/callback/github');
 
+    const auth = await readFile(path.join(projectPath, 'src/lib/auth.ts'));
+    expect(auth).toContain('process.env.GITHUB_CLIENT_ID');
+    expect(auth).toContain('process.env.GOOGLE_CLIENT_SECRET');
+
+    const env = await readFile(path.join(projectPath, '.env'));
+    expect(env).toMatch(/^GITHUB_CLIENT_ID=/m);
+
+    const uiProvider = await readFile(path.join(projectPath, 'src/providers/auth-ui-provider.tsx'));
+    expect(uiProvider).toContain('social={{ providers: ["github", "google"] }}');
+  });
+
+  it('should pass the Kysely client to better-auth', async () => {
+    const projectPath = path.join(tempDir, 'auth-kysely-project');
+    await fs.mkdir(path.join(projectPath, 'src/app'), { recursive: true });
+    await fs.writeFile(path.join(projectPath, 'src/app/layout.tsx'), 'export default function Layout() {}\n');
+    await fs.writeFile(path.join(projectPath, 'src/app/globals.css'), '');
+    const config = createMockConfig({
+      architecture: { database: 'mysql', orm: 'kysely', auth: 'better-auth', skipInstall: true },
+    });
+
+    const result = await client.callTool('setup_authentication', { config, projectPath });
+
+    expect(client.isSuccess(result)).toBe(true);
+    const auth = await readFile(path.join(projectPath, 'src/lib/auth.ts'));
+    expect(auth).toContain('import { db } from "@/lib/db";');
+    expect(auth).toContain('  database: {\n    db,\n    type: "mysql",\n  },\n');
     const text = client.getTextContent(result);
-    expect(text).toBeDefined();
-    expect(text).toContain('Better Auth requires a database');
+    expect(text).toContain('@better-auth/cli@latest migrate');
+    expect(text).toContain(
+      'import { UserButton } from "@/components/auth/user-button";\n\nexport default function Header()'
+    );
+  });
+
+  it('should indent the adapter of a direct database connection', async () => {
+    const projectPath = path.join(tempDir, 'auth-pg-project');
+    await fs.mkdir(path.join(projectPath, 'src/app'), { recursive: true });
+    await fs.writeFile(path.join(projectPath, 'src/app/layout.tsx'), 'export default function Layout() {}\n');
+    await fs.writeFile(path.join(projectPath, 'src/app/globals.css'), '');
+    const config = createMockConfig({
+      architecture: { database: 'postgres', orm: 'none', auth: 'better-auth', skipInstall: true },
+    });
+
+    const result = await client.callTool('setup_authentication', { config, projectPath });
+
+    expect(client.isSuccess(result)).toBe(true);
+    const auth = await readFile(path.join(projectPath, 'src/lib/auth.ts'));
+    expect(auth).toContain('const pool = new Pool({\n  connectionString: process.env.DATABASE_URL,\n});');
+    expect(auth).toContain('  database: pool,\n');
+    expect(client.getTextContent(result)).toContain('export default function Header() {\n  return (\n    <header>');
+  });
+
+  it('should name the unsupported provider in the error', async () => {
+    const config = createMockConfig({
+      architecture: { database: 'postgres', orm: 'drizzle', auth: 'better-auth' },
+    });
+
+    const result = await client.callTool('setup_authentication', {
+      config,
+      projectPath: tempDir,
+      providers: ['myspace'],
+    });
+
+    expect(client.isSuccess(result)).toBe(false);
+    expect(client.getTextContent(result)).toContain('providers.0');
   });
 });
@@ -1,3 +1,4 @@
+import fs from 'node:fs/promises';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 
@@ -12,7 +13,7 @@ const __dirname = path.dirname(__filename);
 describe('setup_database tool', () => {
   let client: MCPTestClient;
   let tempDir: string;
-  const serverPath = path.join(__dirname, '../../../dist/index.js');
+  const serverPath = path.join(__dirname, '../../../dist/cli.js');
 
   beforeAll(async () => {
     client = new MCPTestClient();
@@ -30,6 +31,7 @@ describe('setup_database tool', () => {
       architecture: {
         database: 'none',
         orm: 'none',
+        auth: 'none',
       },
     });
 
@@ -136,4 +138,87 @@ describe('setup_database tool', () => {
     expect(text).toContain('Database setup completed successfully');
     expect(text).toContain('ORM: prisma');
   });
+
+  it('should write JavaScript Drizzle files when TypeScript is disabled', async () => {
+    const projectName = `drizzle-js-setup-test_${Date.now()}`;
+    const projectPath = path.join(tempDir, projectName);
+    await fs.mkdir(projectPath, { recursive: true });
+
+    const config = createMockConfig({
+      name: projectName,
+      architecture: {
+        typescript: false,
+        database: 'postgres',
+        orm: 'drizzle',
+        auth: 'none',
+      },
+    });
+
+    const result = await client.callTool('setup_database', { config, projectPath });
+
+    expect(client.isSuccess(result)).toBe(true);
+    expect(client.getTextContent(result)).toContain('src/lib/db/schema.js');
+
+    const drizzleConfig = await fs.readFile(path.join(projectPath, 'drizzle.config.js'), 'utf-8');
+    expect(drizzleConfig).toContain("schema: './src/lib/db/schema.js'");
+    await expect(fs.access(path.join(projectPath, 'drizzle.config.ts'))).rejects.toThrow();
+    await expect(fs.access(path.join(projectPath, 'src/lib/db/index.js'))).resolves.toBeUndefined();
+  });
+
+  it('should set up a Kysely client, Database interface and kysely-ctl config', async () => {
+    const projectName = `kysely-setup-test_${Date.now()}`;
+    const projectPath = path.join(tempDir, projectName);
+    await fs.mkdir(projectPath, { recursive: true });
+
+    const config = createMockConfig({
+      name: projectName,
+      architecture: {
+        database: 'sqlite',
+        orm: 'kysely',
+        auth: 'none',
+      },
+    });
+
+    const result = await client.callTool('setup_database', { config, projectPath });
+
+    expect(client.isSuccess(result)).toBe(true);
+    expect(client.getTextContent(result)).toContain('kysely migrate:latest');
+
+    const dbClient = await fs.readFile(path.join(projectPath, 'src/lib/db/client.ts'), 'utf-8');
+    expect(dbClient).toContain("import { Kysely, SqliteDialect } from 'kysely';");
+    expect(dbClient).toContain('export const db = new Kysely<Database>({ dialect });');
+    const types = await fs.readFile(path.join(projectPath, 'src/lib/db/types.ts'), 'utf-8');
+    expect(types).toContain('export type Database = Record<string, never>;');
+    expect(types).not.toContain('eslint-disable');
+
+    const kyselyConfig = await fs.readFile(path.join(projectPath, 'kysely.config.ts'), 'utf-8');
+    expect(kyselyConfig).toContain("import { defineConfig } from 'kysely-ctl';");
+    expect(kyselyConfig).toContain("migrationFolder: 'src/lib/db/migrations'");
+    await expect(fs.access(path.join(projectPath, 'src/lib/db/migrations/.gitkeep'))).resolves.toBeUndefined();
+  });
+
+  it('should write JavaScript Kysely files without the Database interface', async () => {
+    const projectName = `kysely-js-setup-test_${Date.now()}`;
+    const projectPath = path.join(tempDir, projectName);
+    await fs.mkdir(projectPath, { recursive: true });
+
+    const config = createMockConfig({
+      name: projectName,
+      architecture: {
+        typescript: false,
+        database: 'postgres',
+        orm: 'kysely',
+        auth: 'none',
+      },
+    });
+
+    const result = await client.callTool('setup_database', { config, projectPath });
+
+    expect(client.isSuccess(result)).toBe(true);
+    const dbClient = await fs.readFile(path.join(projectPath, 'src/lib/db/client.js'), 'utf-8');
+    expect(dbClient).toContain('export const db = new Kysely({ dialect });');
+    expect(dbClient).not.toContain('./types');
+    await expect(fs.access(path.join(projectPath, 'src/lib/db/types.js'))).rejects.toThrow();
+    await expect(fs.access(path.join(projectPath, 'kysely.config.js'))).resolves.toBeUndefined();
+  });
 });
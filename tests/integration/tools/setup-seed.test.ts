@@ -0,0 +1,164 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { MCPTestClient } from '../../helpers/mcp-test-client.js';
+import {
+  cleanupTempDir,
+  createMockConfig,
+  createPackageJson,
+  createTempDir,
+  fileExists,
+  readFile,
+} from '../../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+type ToolOutput = { status: string; warnings: string[] };
+
+// prisma.config.ts as generated by prisma init
+const PRISMA_CONFIG = `import "dotenv/config";
+import { defineConfig, env } from "prisma/config";
+
+export default defineConfig({
+  schema: "prisma/schema.prisma",
+  migrations: {
+    path: "prisma/migrations",
+  },
+  datasource: {
+    url: env("DATABASE_URL"),
+  },
+});
+`;
+
+describe('setup_seed tool', () => {
+  let client: MCPTestClient;
+  let tempDir: string;
+  const serverPath = path.join(__dirname, '../../../dist/cli.js');
+
+  beforeAll(async () => {
+    client = new MCPTestClient();
+    await client.connect(serverPath);
+    tempDir = await createTempDir();
+  }, 30000);
+
+  afterAll(async () => {
+    await client.disconnect();
+    await cleanupTempDir(tempDir);
+  });
+
+  const createProject = async (name: string) => {
+    const projectPath = path.join(tempDir, name);
+    await fs.mkdir(path.join(projectPath, 'src/lib/db'), { recursive: true });
+    await createPackageJson(projectPath, { name });
+    return projectPath;
+  };
+
+  const readPackageJson = async (projectPath: string) =>
+    JSON.parse(await readFile(path.join(projectPath, 'package.json')));
+
+  it('should skip projects without a database', async () => {
+    const projectPath = await createProject('seed-none');
+    const config = createMockConfig({ architecture: { database: 'none', orm: 'none', auth: 'none' } });
+
+    const result = await client.callTool('setup_seed', { config, projectPath });
+
+    expect(client.isSuccess(result)).toBe(true);
+    expect((result.structuredContent as ToolOutput).status).toBe('skipped');
+  });
+
+  it('should wire a Prisma seed into prisma.config.ts with a demo user', async () => {
+    const projectPath = await createProject('seed-prisma');
+    await fs.writeFile(path.join(projectPath, 'prisma.config.ts'), PRISMA_CONFIG);
+    const config = createMockConfig({
+      name: 'seed-prisma',
+      architecture: { database: 'postgres', orm: 'prisma', auth: 'better-auth' },
+    });
+
+    const result = await client.callTool('setup_seed', { config, projectPath, demoUser: true });
+
+    expect(client.isSuccess(result)).toBe(true);
+    const seed = await readFile(path.join(projectPath, 'prisma/seed.ts'));
+    expect(seed).toContain("import { db } from '../src/lib/db'");
+    expect(seed).toContain("import { auth } from '../src/lib/auth'");
+    expect(seed).toContain('auth.api.signUpEmail');
+    expect(seed).toContain('await db.$disconnect()');
+
+    const prismaConfig = await readFile(path.join(projectPath, 'prisma.config.ts'));
+    expect(prismaConfig).toContain('migrations: {\n    seed: "tsx prisma/seed.ts",\n    path: "prisma/migrations",');
+
+    const packageJson = await readPackageJson(projectPath);
+    expect(packageJson.scripts['db:seed']).toBe('prisma db seed');
+    expect(packageJson.devDependencies.tsx).toBeDefined();
+    expect(packageJson.prisma).toBeUndefined();
+  });
+
+  it('should register the seed in package.json when there is no prisma.config.ts', async () => {
+    const projectPath = await createProject('seed-prisma-mongodb');
+    const config = createMockConfig({ architecture: { database: 'mongodb', orm: 'prisma', auth: 'none' } });
+
+    const result = await client.callTool('setup_seed', { config, projectPath });
+
+    expect(client.isSuccess(result)).toBe(true);
+    expect(await fileExists(path.join(projectPath, 'prisma.config.ts'))).toBe(false);
+    const packageJson = await readPackageJson(projectPath);
+    expect(packageJson.prisma).toEqual({ seed: 'tsx prisma/seed.ts' });
+  });
+
+  it('should generate a Drizzle seed run with tsx', async () => {
+    const projectPath = await createProject('seed-drizzle');
+    const config = createMockConfig({ architecture: { database: 'sqlite', orm: 'drizzle', auth: 'none' } });
+
+    const result = await client.callTool('setup_seed', { config, projectPath });
+
+    expect(client.isSuccess(result)).toBe(true);
+    const seed = await readFile(path.join(projectPath, 'src/lib/db/seed.ts'));
+    expect(seed).toContain("import { db } from './client'");
+    expect(seed).not.toContain('signUpEmail');
+    expect((await readPackageJson(projectPath)).scripts['db:seed']).toBe('tsx src/lib/db/seed.ts');
+  });
+
+  it('should generate a Mongoose seed that connects first', async () => {
+    const projectPath = await createProject('seed-mongoose');
+    const config = createMockConfig({ architecture: { database: 'mongodb', orm: 'mongoose', auth: 'none' } });
+
+    const result = await client.callTool('setup_seed', { config, projectPath });
+
+    expect(client.isSuccess(result)).toBe(true);
+    const seed = await readFile(path.join(projectPath, 'src/lib/db/seed.ts'));
+    expect(seed).toContain('await connectDB()');
+    expect(seed).toContain('mongoose.disconnect()');
+  });
+
+  it('should generate raw SQL for a direct driver in a JavaScript project', async () => {
+    const projectPath = await createProject('seed-direct');
+    const config = createMockConfig({
+      architecture: { database: 'mysql', orm: 'none', auth: 'none', typescript: false },
+    });
+
+    const result = await client.callTool('setup_seed', { config, projectPath });
+
+    expect(client.isSuccess(result)).toBe(true);
+    const seed = await readFile(path.join(projectPath, 'src/lib/db/seed.js'));
+    expect(seed).toContain('INSERT IGNORE INTO');
+    expect(seed).toContain('await pool.query(statement)');
+    expect(seed).not.toContain('string[]');
+    expect((await readPackageJson(projectPath)).scripts['db:seed']).toBe('tsx src/lib/db/seed.js');
+  });
+
+  it('should warn and skip the demo user without better-auth', async () => {
+    const projectPath = await createProject('seed-no-auth');
+    const config = createMockConfig({ architecture: { database: 'postgres', orm: 'drizzle', auth: 'none' } });
+
+    const result = await client.callTool('setup_seed', { config, projectPath, demoUser: true });
+
+    expect(client.isSuccess(result)).toBe(true);
+    expect((result.structuredContent as ToolOutput).warnings).toContainEqual(
+      expect.stringContaining('demoUser needs auth')
+    );
+    expect(await readFile(path.join(projectPath, 'src/lib/db/seed.ts'))).not.toContain('signUpEmail');
+  });
+});
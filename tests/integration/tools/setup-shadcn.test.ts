@@ -12,7 +12,7 @@ const __dirname = path.dirname(__filename);
 describe('setup_shadcn tool', () => {
   let client: MCPTestClient;
   let tempDir: string;
-  const serverPath = path.join(__dirname, '../../../dist/index.js');
+  const serverPath = path.join(__dirname, '../../../dist/cli.js');
 
   beforeAll(async () => {
     client = new MCPTestClient();
@@ -63,4 +63,36 @@ describe('setup_shadcn tool', () => {
     expect(text).toBeDefined();
     expect(text).toContain('Shadcn/ui setup skipped');
   });
+
+  it('should add only the requested components', async () => {
+    const config = createMockConfig({
+      architecture: {
+        uiLibrary: 'shadcn',
+        skipInstall: false,
+      },
+    });
+
+    const result = await client.callTool('setup_shadcn', {
+      config,
+      projectPath: tempDir,
+      components: ['button', 'card'],
+      dryRun: true,
+    });
+
+    expect(client.isSuccess(result)).toBe(true);
+    expect(client.getTextContent(result)).toContain('shadcn@latest add button card -y -o');
+  });
+
+  it('should name the invalid component in the error', async () => {
+    const config = createMockConfig({ architecture: { uiLibrary: 'shadcn' } });
+
+    const result = await client.callTool('setup_shadcn', {
+      config,
+      projectPath: tempDir,
+      components: ['button', 'Not A Component'],
+    });
+
+    expect(client.isSuccess(result)).toBe(false);
+    expect(client.getTextContent(result)).toContain('components.1');
+  });
 });
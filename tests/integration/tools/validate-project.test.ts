@@ -1,3 +1,4 @@
+import fs from 'node:fs/promises';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 
@@ -12,7 +13,7 @@ const __dirname = path.dirname(__filename);
 describe('validate_project tool', () => {
   let client: MCPTestClient;
   let tempDir: string;
-  const serverPath = path.join(__dirname, '../../../dist/index.js');
+  const serverPath = path.join(__dirname, '../../../dist/cli.js');
 
   beforeAll(async () => {
     client = new MCPTestClient();
@@ -41,4 +42,23 @@ describe('validate_project tool', () => {
     expect(text).toBeDefined();
     expect(text).toContain('validation completed successfully');
   });
+
+  it('should check JavaScript project files when TypeScript is disabled', async () => {
+    const projectPath = path.join(tempDir, `validate-js-test_${Date.now()}`);
+    await fs.mkdir(projectPath, { recursive: true });
+    for (const file of ['package.json', 'next.config.mjs', 'jsconfig.json']) {
+      await fs.writeFile(path.join(projectPath, file), '{}');
+    }
+
+    const config = createMockConfig({ architecture: { typescript: false } });
+
+    const result = await client.callTool('validate_project', { config, projectPath });
+
+    expect(client.isSuccess(result)).toBe(true);
+
+    const text = client.getTextContent(result);
+    expect(text).toContain('next.config.mjs exists');
+    expect(text).toContain('jsconfig.json exists');
+    expect(text).not.toContain('tsconfig.json');
+  });
 });
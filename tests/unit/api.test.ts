@@ -0,0 +1,103 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { generateDockerfile, generateReadme, setupDatabase, setupShadcn } from '../../src/index.js';
+import { cleanupTempDir, createPackageJson, createTempDir, fileExists, readFile } from '../helpers/test-utils.js';
+
+describe('Programmatic API', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await createTempDir();
+    await createPackageJson(tempDir, { name: 'api-app' });
+  });
+
+  afterAll(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should run a generator and return its structured output', async () => {
+    const result = await generateReadme({ name: 'api-app', architecture: { database: 'sqlite' } }, tempDir);
+
+    expect(result.tool).toBe('generate_readme');
+    expect(result.status).toBe('success');
+    expect(result.projectPath).toBe(tempDir);
+    expect(result.filesCreated).toEqual([path.join(tempDir, 'README.md')]);
+    expect(result.message).toContain('README.md');
+    expect(await readFile(path.join(tempDir, 'README.md'))).toContain('# api-app');
+  });
+
+  it('should plan without changing anything in a dry run', async () => {
+    const result = await setupDatabase(
+      { name: 'api-app', architecture: { database: 'postgres', orm: 'drizzle' } },
+      tempDir,
+      { dryRun: true }
+    );
+
+    expect(result.status).toBe('success');
+    expect(result.dryRun).toBe(true);
+    expect(result.filesCreated).toContain(path.join(tempDir, 'drizzle.config.ts'));
+    expect(await fileExists(path.join(tempDir, 'drizzle.config.ts'))).toBe(false);
+  });
+
+  it('should report progress for the commands it runs', async () => {
+    const steps: string[] = [];
+    const result = await setupShadcn({ name: 'api-app', architecture: {} }, tempDir, {
+      dryRun: true,
+      onProgress: (_progress, message) => {
+        steps.push(message);
+      },
+    });
+
+    expect(result.commandsRun.length).toBeGreaterThan(0);
+    expect(steps).toEqual(result.commandsRun.map((command) => expect.stringContaining(command)));
+  });
+
+  it('should throw for an invalid config', async () => {
+    await expect(
+      setupDatabase({ name: 'api-app', architecture: { database: 'mongodb', orm: 'drizzle' } }, tempDir)
+    ).rejects.toThrow();
+  });
+
+  it('should throw without a config when the project has no manifest', async () => {
+    await expect(generateDockerfile(undefined, tempDir)).rejects.toThrow('No config provided');
+  });
+
+  it('should refuse paths outside the allowed roots', async () => {
+    await expect(
+      generateDockerfile({ name: 'api-app', architecture: {} }, tempDir, {
+        allowedRoots: [path.join(tempDir, 'elsewhere')],
+      })
+    ).rejects.toThrow();
+    expect(await fileExists(path.join(tempDir, 'Dockerfile'))).toBe(false);
+  });
+  it('should accept a project inside an allowed root given through a symlink', async () => {
+    const linkedRoot = `${tempDir}-link`;
+    await fs.symlink(tempDir, linkedRoot);
+
+    try {
+      const result = await generateReadme({ name: 'api-app', architecture: {} }, tempDir, {
+        allowedRoots: [linkedRoot],
+      });
+      expect(result.status).toBe('success');
+    } finally {
+      await fs.rm(linkedRoot);
+    }
+  });
+
+  it('should check the arguments against the tool input schema', async () => {
+    await expect(
+      generateDockerfile({ name: 'api-app', architecture: {} }, tempDir, { baseImage: 'node:24; rm -rf /' })
+    ).rejects.toThrow('Must be a Docker image reference');
+    expect(await fileExists(path.join(tempDir, 'Dockerfile'))).toBe(false);
+  });
+
+  it('should fail without a project path', async () => {
+    const result = await generateReadme({ name: 'api-app', architecture: {} }, undefined as unknown as string);
+
+    expect(result.status).toBe('failed');
+    expect(result.message).toContain('generate_readme needs a projectPath');
+  });
+});
@@ -45,19 +45,20 @@ describe('ProjectConfig', () => {
     const databases = ['none', 'postgres', 'mysql', 'mongodb', 'sqlite'] as const;
 
     databases.forEach((db) => {
+      // Without a database, the default ORM and auth have nothing to connect to
       const config = createMockConfig({
-        architecture: { database: db },
+        architecture: db === 'none' ? { database: db, orm: 'none', auth: 'none' } : { database: db },
       });
       expect(config.architecture.database).toBe(db);
     });
   });
 
   it('should support all ORM options', () => {
-    const orms = ['none', 'prisma', 'drizzle', 'mongoose'] as const;
+    const orms = ['none', 'prisma', 'drizzle', 'kysely', 'mongoose'] as const;
 
     orms.forEach((orm) => {
       const config = createMockConfig({
-        architecture: { orm },
+        architecture: orm === 'mongoose' ? { orm, database: 'mongodb' } : { orm },
       });
       expect(config.architecture.orm).toBe(orm);
     });
@@ -187,6 +188,36 @@ describe('ProjectConfigSchema Zod Validation', () => {
     expect(() => ProjectConfigSchema.parse(invalidConfig)).toThrow(ZodError);
   });
 
+  it('should reject an ORM that does not support the database', () => {
+    const result = ProjectConfigSchema.safeParse({
+      architecture: { database: 'postgres', orm: 'mongoose' },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['architecture', 'orm']);
+    expect(result.error?.issues[0].message).toContain('Set database to "mongodb"');
+  });
+
+  it('should reject an ORM without a database', () => {
+    const result = ProjectConfigSchema.safeParse({
+      architecture: { database: 'none', orm: 'drizzle', auth: 'none' },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['architecture', 'orm']);
+    expect(result.error?.issues[0].message).toContain('drizzle needs a database');
+  });
+
+  it('should reject better-auth without a database', () => {
+    const result = ProjectConfigSchema.safeParse({
+      architecture: { database: 'none', orm: 'none', auth: 'better-auth' },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['architecture', 'auth']);
+    expect(result.error?.issues[0].message).toContain('set auth to "none"');
+  });
+
   it('should validate and preserve valid config values', () => {
     const validConfig = {
       name: 'my-app',